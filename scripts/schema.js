@@ -0,0 +1,125 @@
+//@ts-check
+
+'use strict';
+
+// Generate `schemas/alloglot.schema.json` from the `TConfig` type in `src/config.ts`.
+// Run with `npm run schema` after changing the configuration types.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const configPath = path.resolve(__dirname, '..', 'src', 'config.ts');
+const schemaPath = path.resolve(__dirname, '..', 'schemas', 'alloglot.schema.json');
+
+const program = ts.createProgram([configPath], { strict: true });
+const checker = program.getTypeChecker();
+const source = program.getSourceFile(configPath);
+if (!source) throw new Error(`Could not read ${configPath}`);
+
+/** @type {Map<string, ts.TypeAliasDeclaration>} */
+const aliases = new Map();
+source.statements.forEach(statement => {
+  if (ts.isTypeAliasDeclaration(statement)) aliases.set(statement.name.text, statement);
+});
+
+/** @type {Record<string, any>} */
+const definitions = {};
+
+/**
+ * @param {ts.Node} node
+ * @returns {string | undefined}
+ */
+function describe(node) {
+  const name = /** @type {any} */ (node).name;
+  const symbol = name && checker.getSymbolAtLocation(name);
+  const description = symbol && ts.displayPartsToString(symbol.getDocumentationComment(checker));
+  return description || undefined;
+}
+
+/**
+ * @param {string} name
+ */
+function reference(name) {
+  if (!(name in definitions)) {
+    const alias = aliases.get(name);
+    if (!alias) throw new Error(`Unknown type ${name}`);
+    definitions[name] = {}; // break cycles, e.g. `StringTransformation` refers to itself.
+    definitions[name] = { description: describe(alias), ...convert(alias.type) };
+  }
+  return { $ref: `#/definitions/${name}` };
+}
+
+/**
+ * @param {ts.TypeNode} node
+ * @returns {any}
+ */
+function convert(node) {
+  if (node.kind === ts.SyntaxKind.StringKeyword) return { type: 'string' };
+  if (node.kind === ts.SyntaxKind.NumberKeyword) return { type: 'number' };
+  if (node.kind === ts.SyntaxKind.BooleanKeyword) return { type: 'boolean' };
+  if (ts.isParenthesizedTypeNode(node)) return convert(node.type);
+  if (ts.isArrayTypeNode(node)) return { type: 'array', items: convert(node.elementType) };
+  if (ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)) return { const: node.literal.text };
+  if (ts.isLiteralTypeNode(node) && ts.isNumericLiteral(node.literal)) return { const: Number(node.literal.text) };
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText(source);
+    if (name === 'Array' && node.typeArguments) return { type: 'array', items: convert(node.typeArguments[0]) };
+    if (name === 'Boolean') return { type: 'boolean' };
+    return reference(name);
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    const types = node.types.map(convert);
+    if (types.every(type => 'const' in type)) return { enum: types.map(type => type.const) };
+    if (types.every(type => typeof type.type === 'string' && Object.keys(type).length === 1)) return { type: types.map(type => type.type) };
+    return { anyOf: types };
+  }
+
+  if (ts.isTypeLiteralNode(node)) {
+    /** @type {Record<string, any>} */
+    const properties = {};
+    /** @type {Array<string>} */
+    const required = [];
+    /** @type {any} */
+    let additionalProperties = false;
+    node.members.forEach(member => {
+      // an index signature, like `{ [value: string]: ... }`, allows any property of its type.
+      if (ts.isIndexSignatureDeclaration(member)) additionalProperties = convert(member.type);
+      if (!ts.isPropertySignature(member) || !member.type) return;
+      const name = member.name.getText(source);
+      const description = describe(member);
+      const schema = convert(member.type);
+      // optional fields can be set to `null` to disable them when configurations are merged.
+      properties[name] = member.questionToken ? nullable(schema) : schema;
+      if (description) properties[name] = { description, ...properties[name] };
+      if (!member.questionToken) required.push(name);
+    });
+    return { type: 'object', properties, required, additionalProperties };
+  }
+
+  throw new Error(`Unsupported type ${node.getText(source)}`);
+}
+
+/**
+ * @param {any} schema
+ */
+function nullable(schema) {
+  if (typeof schema.type === 'string' && !schema.items && !schema.properties) return { ...schema, type: [schema.type, 'null'] };
+  if (Array.isArray(schema.type)) return { ...schema, type: [...schema.type, 'null'] };
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+const root = reference('TConfig');
+const schema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $comment: 'Generated by scripts/schema.js from src/config.ts. Do not edit by hand.',
+  ...root,
+  definitions
+};
+// editors add `$schema` to files that use a schema.
+definitions.TConfig.properties = { $schema: { type: 'string' }, ...definitions.TConfig.properties };
+
+fs.mkdirSync(path.dirname(schemaPath), { recursive: true });
+fs.writeFileSync(schemaPath, JSON.stringify(schema, null, 2) + '\n');
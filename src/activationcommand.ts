@@ -3,9 +3,9 @@ import * as vscode from 'vscode'
 import { alloglot } from './config'
 import { AsyncProcess, IHierarchicalOutputChannel } from './utils'
 
-export function makeActivationCommand(parentOutput: IHierarchicalOutputChannel, command: string | undefined, reveal: boolean | undefined): vscode.Disposable {
+export function makeActivationCommand(parentOutput: IHierarchicalOutputChannel, command: string | undefined, reveal: boolean | undefined, folder?: vscode.WorkspaceFolder): vscode.Disposable {
   if (!command) return vscode.Disposable.from()
-  const basedir = vscode.workspace.workspaceFolders?.[0].uri
+  const basedir = folder?.uri
   const output = parentOutput.split()
   reveal && output.show(true)
 
@@ -36,18 +36,30 @@ Portions of this software are derived from [ghcid](https://github.com/ndmitchell
 import { dirname, isAbsolute } from 'path'
 import * as vscode from 'vscode'
 
-import { Annotation, AnnotationsConfig, LanguageConfig, alloglot } from './config'
+import { Annotation, AnnotationFix, AnnotationsConfig, Config, LanguageConfig, MappingPath, MappingValue, alloglot } from './config'
+import { IJsonlReader, JsonlReader } from './jsonl'
+import { ProblemMatcher } from './problemmatcher'
+import { Sarif } from './sarif'
+import { AsyncProcess, Disposal, folderSelector, isInFolder } from './utils'
 
-export function makeAnnotations(output: vscode.OutputChannel, config: LanguageConfig): vscode.Disposable {
+export function makeAnnotations(output: vscode.OutputChannel, config: LanguageConfig, folder?: vscode.WorkspaceFolder): vscode.Disposable {
   output.appendLine(alloglot.ui.startingAnnotations)
-  const { languageId, annotations } = config
-  if (!languageId || !annotations || annotations.length === 0) return vscode.Disposable.from()
+  const { languageId, annotations, overrides } = config
+  const allAnnotations = Array.from(new Set([...annotations || [], ...overrides?.flatMap(override => override.annotations || []) || []]))
+  if (!languageId || allAnnotations.length === 0) return vscode.Disposable.from()
 
-  const watchers: Array<vscode.Disposable> = annotations.map(cfg => watchAnnotationsFile(languageId, cfg))
+  // with overrides, each annotations file only annotates the files whose effective `annotations` include it.
+  const appliesTo = (cfg: AnnotationsConfig) => (uri: vscode.Uri) =>
+    !overrides?.length || !!Config.forFile(config, uri, folder).annotations?.includes(cfg)
+
+  const watchers: Array<IAnnotationsWatcher> = allAnnotations.map(cfg => cfg.command
+    ? runAnnotationsCommand(output, languageId, cfg, appliesTo(cfg), folder)
+    : watchAnnotationsFile(output, languageId, cfg, appliesTo(cfg), folder)
+  )
 
   const quickFixes = vscode.languages.registerCodeActionsProvider(
-    languageId,
-    { provideCodeActions: (document, range, context) => context.diagnostics.map(asQuickFixes).flat() },
+    folderSelector(languageId, folder),
+    { provideCodeActions: (document, range, context) => context.diagnostics.flatMap(diag => watchers.flatMap(watcher => watcher.quickFixes(document.uri, diag))) },
     { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
   )
 
@@ -58,117 +70,384 @@ export function makeAnnotations(output: vscode.OutputChannel, config: LanguageCo
   )
 }
 
-function watchAnnotationsFile(languageId: string, cfg: AnnotationsConfig): vscode.Disposable {
-  const diagnostics = vscode.languages.createDiagnosticCollection(`${alloglot.collections.annotations}-${languageId}-${cfg.file}`)
+/**
+ * Register `Alloglot: Run Annotations Commands`.
+ * The command is registered once, and runs every annotations command that runs on demand for the current document.
+ */
+export function makeRunAnnotations(output: vscode.OutputChannel): vscode.Disposable {
+  return vscode.commands.registerTextEditorCommand(alloglot.commands.runAnnotations, editor => {
+    output.appendLine(alloglot.ui.runningAnnotationsCommands)
+    const { document } = editor
+    annotationsRunners.forEach(({ selector, run }) => vscode.languages.match(selector, document) > 0 && run(document))
+  })
+}
 
-  const messagePath = path<string>(cfg.mapping.message)
-  const filePath = path<string>(cfg.mapping.file)
-  const startLinePath = path<number>(cfg.mapping.startLine)
-  const startColumnPath = path<number>(cfg.mapping.startColumn)
-  const endLinePath = path<number>(cfg.mapping.endLine)
-  const endColumnPath = path<number>(cfg.mapping.endColumn)
-  const sourcePath = path<string>(cfg.mapping.source)
-  const severityPath = path<string>(cfg.mapping.severity)
-  const replacementsPath = path<string | Array<string>>(cfg.mapping.replacements)
-  const referenceCodePath = path<string | number>(cfg.mapping.referenceCode)
+const annotationsRunners = new Set<{
+  selector: vscode.DocumentFilter
+  run: (document: vscode.TextDocument) => void
+}>()
 
-  function marshalAnnotation(json: any): Annotation | undefined {
-    const message = messagePath(json)
-    const file = filePath(json)
-    if (!message || !file) return
+/**
+ * The diagnostics of one annotations file, and the quick fixes that go with them.
+ */
+interface IAnnotationsWatcher extends vscode.Disposable {
+  quickFixes(uri: vscode.Uri, diagnostic: vscode.Diagnostic): Array<vscode.CodeAction>
+}
 
-    const startLine = startLinePath(json) || 0
-    const startColumn = startColumnPath(json) || 0
-    const endLine = endLinePath(json) || startLine
-    const endColumn = endColumnPath(json) || startColumn
+function watchAnnotationsFile(output: vscode.OutputChannel, languageId: string, cfg: AnnotationsConfig, appliesTo: (uri: vscode.Uri) => boolean, folder?: vscode.WorkspaceFolder): IAnnotationsWatcher {
+  const collection = makeCollection(output, languageId, cfg, folder)
+  const reader = annotationsReader(output, cfg)
 
-    const replacements: Array<string> =
-      typeof replacementsPath(json) === 'string'
-        ? [replacementsPath(json) as string]
-        : replacementsPath(json) as Array<string>
+  // the annotations shown for each source file.
+  // `jsonl` files are read as they're appended to, so new annotations are added to these.
+  const shown = new Map<string, Array<Annotation>>()
 
-    return {
-      message, file, startLine, startColumn, endLine, endColumn, replacements,
-      source: sourcePath(json) || `${cfg.file}`,
-      severity: parseSeverity(severityPath(json)),
-      referenceCode: referenceCodePath(json)?.toString(),
-    }
-  }
+  // `jsonl` files are read incrementally, from where the last read stopped.
+  let jsonlReader: IJsonlReader | undefined = undefined
 
-  function readAnnotations(bytes: Uint8Array): Array<Annotation> {
-    const contents = Buffer.from(bytes).toString('utf-8')
-    const jsons: Array<any> = cfg.format === 'jsonl'
-      ? contents.split('\n').map(line => JSON.parse(line))
-      : JSON.parse(contents)
-    const annotations = jsons.map(marshalAnnotation).filter(x => x) as Array<Annotation>
-    return annotations
+  function show(basedir: vscode.Uri, annotations: Array<Annotation>, reset: boolean): void {
+    if (reset) clear()
+    annotationsBySourceFile(annotations).forEach((anns, srcFile) => {
+      const srcUri = fileUri(basedir, srcFile)
+      if (!appliesTo(srcUri)) return
+      const all = [...shown.get(srcUri.toString()) || [], ...anns]
+      shown.set(srcUri.toString(), all)
+      collection.set(srcUri, basedir, all)
+    })
   }
 
-  function annotationsBySourceFile(annotations: Array<Annotation>): Map<string, Array<Annotation>> {
-    const sorted = new Map<string, Array<Annotation>>()
-    annotations.forEach(annotation => {
-      const annotationsForFile = sorted.get(annotation.file)
-      annotationsForFile
-        ? annotationsForFile.push(annotation)
-        : sorted.set(annotation.file, [annotation])
-    })
-    return sorted
+  function clear(): void {
+    shown.clear()
+    collection.clear()
   }
 
+  // a file that can't be read or parsed leaves the last annotations in place.
   function addAnnotations(annFile: vscode.Uri): void {
-    diagnostics.clear()
     const basedir = vscode.Uri.file(dirname(annFile.fsPath))
-    vscode.workspace.fs.readFile(annFile).then(bytes => {
-      annotationsBySourceFile(readAnnotations(bytes)).forEach((anns, srcFile) => {
-        const srcUri = fileUri(basedir, srcFile)
-        const diags = anns.map(ann => annotationAsDiagnostic(basedir, ann))
-        diagnostics.set(srcUri, diags)
-      })
-    })
+    const reportError = (err: any) => output.appendLine(alloglot.ui.couldNotReadAnnotations(cfg.file, err))
+
+    if (cfg.format === 'jsonl') {
+      jsonlReader = jsonlReader || JsonlReader.make(annFile.fsPath, reader.reportMalformed)
+      jsonlReader.read()
+        .then(({ reset, records }) => show(basedir, reader.marshal(records), reset))
+        .catch(reportError)
+      return
+    }
+
+    Promise.resolve(vscode.workspace.fs.readFile(annFile))
+      .then(bytes => show(basedir, reader.read(Buffer.from(bytes).toString('utf-8')), true))
+      .catch(reportError)
   }
 
-  const watchers = vscode.workspace.workspaceFolders?.map(ws => {
+  const watchers = (folder ? [folder] : []).map(ws => {
     const pattern = new vscode.RelativePattern(ws, cfg.file)
     const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, false, false)
 
     watcher.onDidChange(addAnnotations)
     watcher.onDidCreate(addAnnotations)
-    watcher.onDidDelete(() => diagnostics.clear())
+    watcher.onDidDelete(() => {
+      jsonlReader?.reset()
+      clear()
+    })
 
     return watcher
-  }) || []
+  })
 
   const cleanup = vscode.workspace.onDidSaveTextDocument(doc => {
-    if (doc.languageId === languageId) {
-      diagnostics.delete(doc.uri)
+    if (doc.languageId === languageId && isInFolder(doc.uri, folder)) {
+      shown.delete(doc.uri.toString())
+      collection.delete(doc.uri)
+      // the file might be rewritten so that it looks appended to, so read all of it again next time.
+      jsonlReader?.reset()
     }
   })
 
-  return vscode.Disposable.from(cleanup, ...watchers)
+  const disposable = vscode.Disposable.from(cleanup, collection, ...watchers)
+  return {
+    quickFixes: collection.quickFixes,
+    dispose: () => disposable.dispose()
+  }
+}
+
+/**
+ * Run an annotations `command` for each file, and show the annotations it writes for that file.
+ */
+function runAnnotationsCommand(output: vscode.OutputChannel, languageId: string, cfg: AnnotationsConfig, appliesTo: (uri: vscode.Uri) => boolean, folder?: vscode.WorkspaceFolder): IAnnotationsWatcher {
+  const collection = makeCollection(output, languageId, cfg, folder)
+  const reader = annotationsReader(output, cfg)
+  const runOn = cfg.runOn || ['save']
+  const selector = folderSelector(languageId, folder)
+  const disposal = Disposal.make()
+  disposal.insert(collection)
+
+  // the latest run for each file. a run that has been replaced is stopped, and its output is ignored.
+  const runs = new Map<string, vscode.Disposable>()
+
+  function run(document: vscode.TextDocument): void {
+    if (!cfg.command || vscode.languages.match(selector, document) === 0 || !appliesTo(document.uri)) return
+    const key = document.uri.toString()
+    runs.get(key)?.dispose()
+
+    const command = cfg.command.replace('${file}', document.fileName)
+    const proc = AsyncProcess.exec({ output, command, basedir: folder?.uri }, stdout => stdout)
+    runs.set(key, proc.disposable)
+
+    // relative paths in the output are relative to where the command ran.
+    const basedir = folder?.uri || vscode.Uri.file(dirname(document.uri.fsPath))
+    proc.promise.then(
+      stdout => {
+        if (runs.get(key) !== proc.disposable) return
+        runs.delete(key)
+        try {
+          const anns = stdout.trim() ? reader.read(stdout, document.fileName) : []
+          collection.set(document.uri, basedir, anns.filter(ann => fileUri(basedir, ann.file).toString() === key))
+        } catch (err) {
+          output.appendLine(alloglot.ui.couldNotReadAnnotations(command, err))
+        }
+      },
+      () => runs.get(key) === proc.disposable && runs.delete(key)
+    )
+  }
+
+  runOn.includes('open') && vscode.workspace.textDocuments.forEach(run)
+  runOn.includes('open') && disposal.insert(vscode.workspace.onDidOpenTextDocument(run))
+  runOn.includes('save') && disposal.insert(vscode.workspace.onDidSaveTextDocument(run))
+
+  if (runOn.includes('demand')) {
+    const runner = { selector, run }
+    annotationsRunners.add(runner)
+    disposal.insert({ dispose: () => annotationsRunners.delete(runner) })
+  }
+
+  disposal.insert({
+    dispose: () => {
+      runs.forEach(run => run.dispose())
+      runs.clear()
+    }
+  })
+
+  return {
+    quickFixes: collection.quickFixes,
+    dispose: () => disposal.dispose()
+  }
+}
+
+/**
+ * A diagnostic collection for one annotations config, and the quick fixes for its diagnostics.
+ */
+interface IAnnotationsCollection extends vscode.Disposable {
+  set(uri: vscode.Uri, basedir: vscode.Uri, annotations: Array<Annotation>): void
+  delete(uri: vscode.Uri): void
+  clear(): void
+  quickFixes(uri: vscode.Uri, diagnostic: vscode.Diagnostic): Array<vscode.CodeAction>
+}
+
+function makeCollection(output: vscode.OutputChannel, languageId: string, cfg: AnnotationsConfig, folder?: vscode.WorkspaceFolder): IAnnotationsCollection {
+  const collectionName = [alloglot.collections.annotations, folder?.name, languageId, cfg.file].filter(x => x).join('-')
+  const diagnostics = vscode.languages.createDiagnosticCollection(collectionName)
+
+  // fixes for the diagnostics of each source file, by `diagnosticKey`.
+  // code actions are given copies of our diagnostics, so they can't be looked up by identity.
+  const fixes = new Map<string, Map<string, Array<QuickFix>>>()
+
+  // annotations with byte offsets are shown once the file has been read,
+  // unless they've been replaced or removed by then.
+  let generation = 0
+  const latest = new Map<string, number>()
+
+  function show(uri: vscode.Uri, basedir: vscode.Uri, annotations: Array<Annotation>): void {
+    const fileFixes = new Map<string, Array<QuickFix>>()
+    const diags = annotations.map(ann => {
+      const diag = annotationAsDiagnostic(basedir, ann)
+      const annFixes = asFixes(ann).map(fix => asQuickFix(basedir, diag, fix))
+      annFixes.length > 0 && fileFixes.set(diagnosticKey(diag), annFixes)
+      return diag
+    })
+    diagnostics.set(uri, diags)
+    fixes.set(uri.toString(), fileFixes)
+  }
+
+  return {
+    set(uri, basedir, annotations) {
+      const current = ++generation
+      latest.set(uri.toString(), current)
+      if (!annotations.some(ann => ann.startOffset !== undefined)) return show(uri, basedir, annotations)
+      resolveOffsets(uri, annotations)
+        .then(resolved => latest.get(uri.toString()) === current && show(uri, basedir, resolved))
+        .catch(err => output.appendLine(alloglot.ui.couldNotReadAnnotations(cfg.file, err)))
+    },
+
+    delete(uri) {
+      latest.delete(uri.toString())
+      diagnostics.delete(uri)
+      fixes.delete(uri.toString())
+    },
+
+    clear() {
+      latest.clear()
+      diagnostics.clear()
+      fixes.clear()
+    },
+
+    quickFixes(uri, diag) {
+      return (fixes.get(uri.toString())?.get(diagnosticKey(diag)) || []).map(fix => {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix)
+        action.diagnostics = [diag]
+        action.edit = fix.edit
+        return action
+      })
+    },
+
+    dispose() {
+      diagnostics.dispose()
+      fixes.clear()
+    }
+  }
+}
+
+/**
+ * Reads annotations in the format of an annotations config.
+ * Method `read(contents, defaultFile)` reads the contents of an annotations file (or the output of an annotations command).
+ * Method `marshal(jsons, defaultFile)` maps JSON objects to annotations with the config's `mapping`.
+ * Method `reportMalformed(line, err)` reports a `jsonl` record that isn't valid JSON.
+ * With `json` and `jsonl`, annotations without a file are for `defaultFile`, if there is one.
+ */
+interface IAnnotationsReader {
+  read(contents: string, defaultFile?: string): Array<Annotation>
+  marshal(jsons: Array<any>, defaultFile?: string): Array<Annotation>
+  reportMalformed(line: number, err: any): void
+}
+
+function annotationsReader(output: vscode.OutputChannel, cfg: AnnotationsConfig): IAnnotationsReader {
+  const { mapping } = cfg
+  const messagePath = stringPath(mapping?.message)
+  const filePath = stringPath(mapping?.file)
+  const startLinePath = numberPath(mapping?.startLine)
+  const startColumnPath = numberPath(mapping?.startColumn)
+  const endLinePath = numberPath(mapping?.endLine)
+  const endColumnPath = numberPath(mapping?.endColumn)
+  const startOffsetPath = numberPath(mapping?.startOffset)
+  const endOffsetPath = numberPath(mapping?.endOffset)
+  const sourcePath = stringPath(mapping?.source)
+  const severityPath = path(mapping?.severity)
+  const replacementsPath = path(mapping?.replacements)
+  const referenceCodePath = stringPath(mapping?.referenceCode)
+
+  // annotations count lines and columns from 1.
+  const lineShift = 1 - (cfg.lineBase ?? 1)
+  const columnShift = 1 - (cfg.columnBase ?? 1)
+  const shift = (n: number | undefined, by: number) => n === undefined ? undefined : n + by
+
+  function severityOf(json: any): Annotation['severity'] {
+    const raw = severityPath(json)[0]
+    const severities = mapping?.severities
+    return (raw !== undefined && severities?.[String(raw)]) || parseSeverity(raw === undefined ? undefined : String(raw))
+  }
+
+  function marshalAnnotation(json: any, defaultFile?: string): Annotation | undefined {
+    const message = messagePath(json)
+    const file = filePath(json) || defaultFile
+    if (!message || !file) return
+
+    const startLine = shift(startLinePath(json), lineShift) ?? 1
+    const startColumn = shift(startColumnPath(json), columnShift) ?? 1
+    const endLine = shift(endLinePath(json), lineShift) ?? startLine
+    const endColumn = shift(endColumnPath(json), columnShift) ?? startColumn
+
+    const startOffset = startOffsetPath(json)
+    const endOffset = startOffset === undefined ? undefined : endOffsetPath(json) ?? startOffset
+
+    const replacements: Array<string> = replacementsPath(json).flat().map(asString).filter(x => x !== undefined) as Array<string>
+
+    return {
+      message, file, startLine, startColumn, endLine, endColumn, startOffset, endOffset, replacements,
+      source: sourcePath(json) || `${cfg.file}`,
+      severity: severityOf(json),
+      referenceCode: referenceCodePath(json),
+    }
+  }
+
+  function marshal(jsons: Array<any>, defaultFile?: string): Array<Annotation> {
+    return jsons.map(json => marshalAnnotation(json, defaultFile)).filter(x => x) as Array<Annotation>
+  }
+
+  function reportMalformed(line: number, err: any): void {
+    output.appendLine(alloglot.ui.malformedAnnotation(cfg.file, line, err))
+  }
+
+  return {
+    read(contents, defaultFile) {
+      if (cfg.format === 'sarif') return Sarif.readAnnotations(JSON.parse(contents), cfg.file)
+      if (cfg.format === 'text') return ProblemMatcher.readAnnotations(contents, cfg.patterns || [], cfg.file, parseSeverity)
+      const jsons: Array<any> = cfg.format === 'jsonl' ? JsonlReader.parse(contents, reportMalformed) : JSON.parse(contents)
+      return marshal(jsons, defaultFile)
+    },
+    marshal,
+    reportMalformed
+  }
+}
+
+function annotationsBySourceFile(annotations: Array<Annotation>): Map<string, Array<Annotation>> {
+  const sorted = new Map<string, Array<Annotation>>()
+  annotations.forEach(annotation => {
+    const annotationsForFile = sorted.get(annotation.file)
+    annotationsForFile
+      ? annotationsForFile.push(annotation)
+      : sorted.set(annotation.file, [annotation])
+  })
+  return sorted
 }
 
 function annotationAsDiagnostic(basedir: vscode.Uri, ann: Annotation): vscode.Diagnostic {
-  const range = new vscode.Range(
-    new vscode.Position(ann.startLine - 1, ann.startColumn - 1),
-    new vscode.Position(ann.endLine - 1, ann.endColumn - 1)
-  )
+  const range = asRange(ann)
 
-  // we are abusing the relatedInformation field to store replacements
-  // we look them up later when we need to create quick fixes
-  const relatedInformation = ann.replacements.map(replacement => {
-    const srcUri = fileUri(basedir, ann.file)
-    const srcLocation = new vscode.Location(srcUri, range)
-    return new vscode.DiagnosticRelatedInformation(srcLocation, replacement)
+  const relatedInformation = ann.relatedLocations?.map(related => {
+    const location = new vscode.Location(fileUri(basedir, related.file), asRange(related))
+    return new vscode.DiagnosticRelatedInformation(location, related.message)
   })
 
   // i wish they gave an all-args constructor
   const diagnostic = new vscode.Diagnostic(range, ann.message, asDiagnosticSeverity(ann.severity))
   diagnostic.source = ann.source
   diagnostic.relatedInformation = relatedInformation
-  diagnostic.code = ann.referenceCode
+  diagnostic.code = ann.referenceCode && ann.referenceUri
+    ? { value: ann.referenceCode, target: vscode.Uri.parse(ann.referenceUri) }
+    : ann.referenceCode
   return diagnostic
 }
 
+// annotations' lines and columns are 1-based.
+// a 0 from a tool that counts from 1 would be -1 here, which `vscode.Position` rejects.
+function asRange(location: { startLine: number, startColumn: number, endLine: number, endColumn: number }): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(Math.max(location.startLine - 1, 0), Math.max(location.startColumn - 1, 0)),
+    new vscode.Position(Math.max(location.endLine - 1, 0), Math.max(location.endColumn - 1, 0))
+  )
+}
+
+// each replacement replaces the annotated range.
+function asFixes(ann: Annotation): Array<AnnotationFix> {
+  const { file, startLine, startColumn, endLine, endColumn } = ann
+  const replacements = ann.replacements.map(text => ({ edits: [{ file, startLine, startColumn, endLine, endColumn, text }] }))
+  return [...replacements, ...ann.fixes || []]
+}
+
+type QuickFix = {
+  title: string
+  edit: vscode.WorkspaceEdit
+}
+
+function asQuickFix(basedir: vscode.Uri, diag: vscode.Diagnostic, fix: AnnotationFix): QuickFix {
+  const edit = new vscode.WorkspaceEdit
+  fix.edits.forEach(change => edit.replace(fileUri(basedir, change.file), asRange(change), change.text))
+  return { title: fix.description || diag.message, edit }
+}
+
+function diagnosticKey(diag: vscode.Diagnostic): string {
+  const { start, end } = diag.range
+  return `${start.line}:${start.character}-${end.line}:${end.character}\t${diag.message}`
+}
+
 function asDiagnosticSeverity(sev: Annotation['severity']): vscode.DiagnosticSeverity {
   switch (sev) {
     case 'error': return vscode.DiagnosticSeverity.Error
@@ -178,28 +457,99 @@ function asDiagnosticSeverity(sev: Annotation['severity']): vscode.DiagnosticSev
   }
 }
 
-// this depends on the fact that we're abusing the `relatedInformation` field
-// see `annotationAsDiagnostic` above
-function asQuickFixes(diag: vscode.Diagnostic): Array<vscode.CodeAction> {
-  const actions = diag.relatedInformation?.map(info => {
-    const action = new vscode.CodeAction(diag.message, vscode.CodeActionKind.QuickFix)
-    action.diagnostics = [diag]
-    action.edit = new vscode.WorkspaceEdit
-    action.edit.replace(info.location.uri, info.location.range, info.message)
-    return action
-  })
-  return actions || []
+/**
+ * Find the values of a mapping entry in a JSON object, best first.
+ * `null` and `undefined` are missing, but `0`, `false` and the empty string are values.
+ */
+function path(value: MappingValue | undefined): (json: any) => Array<any> {
+  if (!value) return () => []
+  if (!Array.isArray(value)) return json => {
+    const rendered = renderTemplate(value.template, json)
+    return rendered ? [rendered] : []
+  }
+  if (value.length > 0 && value.every(Array.isArray)) return json => {
+    for (const fallback of value as Array<MappingPath>) {
+      const found = walk(json, fallback)
+      if (found.length > 0) return found
+    }
+    return []
+  }
+  return json => walk(json, value as MappingPath)
+}
+
+function stringPath(value: MappingValue | undefined): (json: any) => string | undefined {
+  const find = path(value)
+  return json => find(json).map(asString).find(x => x)
+}
+
+function numberPath(value: MappingValue | undefined): (json: any) => number | undefined {
+  const find = path(value)
+  return json => find(json).map(asNumber).find(x => x !== undefined)
 }
 
-function path<T>(keys: Array<string> | undefined): (json: any) => T | undefined {
-  if (!keys) return () => undefined
-  else return json => {
-    const result = keys.reduce((acc, key) => acc?.[key], json)
-    if (result) return result as T
-    else return undefined
+// `*` follows every item of an array, or every value of an object.
+function walk(json: any, keys: MappingPath): Array<any> {
+  let nodes: Array<any> = [json]
+  for (const key of keys) {
+    nodes = nodes.flatMap(node => {
+      if (node === null || typeof node !== 'object') return []
+      return key === '*' ? Object.values(node) : [node[key]]
+    }).filter(node => node !== undefined && node !== null)
   }
+  return nodes
+}
+
+function renderTemplate(template: string, json: any): string {
+  return template.replace(/\$\{([^}]*)\}/g, (_, keys: string) => asString(walk(json, keys.split('.'))[0]) ?? '')
+}
+
+function asString(x: any): string | undefined {
+  if (x === undefined || x === null) return undefined
+  return typeof x === 'object' ? JSON.stringify(x) : String(x)
+}
+
+function asNumber(x: any): number | undefined {
+  if (typeof x === 'number') return isNaN(x) ? undefined : x
+  if (typeof x === 'string' && x.trim() && !isNaN(Number(x))) return Number(x)
+  return undefined
 }
 
+/**
+ * Set the lines and columns of annotations with byte offsets from the contents of their file.
+ * If the file can't be read, they keep the lines and columns they have.
+ */
+function resolveOffsets(uri: vscode.Uri, annotations: Array<Annotation>): Promise<Array<Annotation>> {
+  return Promise.resolve(vscode.workspace.fs.readFile(uri)).then(
+    contents => {
+      const bytes = Buffer.from(contents)
+      const lineStarts = [0]
+      bytes.forEach((byte, i) => byte === newline && lineStarts.push(i + 1))
+
+      // 1-based line and column, in UTF-16 code units like the editor's, of a byte offset.
+      function position(offset: number): { line: number, column: number } {
+        const clamped = Math.max(0, Math.min(offset, bytes.length))
+        let low = 0
+        let high = lineStarts.length - 1
+        while (low < high) {
+          const mid = Math.ceil((low + high) / 2)
+          lineStarts[mid] <= clamped ? low = mid : high = mid - 1
+        }
+        return { line: low + 1, column: bytes.subarray(lineStarts[low], clamped).toString('utf-8').length + 1 }
+      }
+
+      return annotations.map(ann => {
+        if (ann.startOffset === undefined) return ann
+        const start = position(ann.startOffset)
+        const end = position(ann.endOffset ?? ann.startOffset)
+        return { ...ann, startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column }
+      })
+    },
+    () => annotations
+  )
+}
+
+const newline = 0x0a
+
 function parseSeverity(raw: string | undefined): Annotation['severity'] {
   if (!raw) return 'error'
   const lower = raw.toLowerCase()
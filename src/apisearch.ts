@@ -206,19 +206,13 @@ Portions of this software are derived from [vscode-goto-documentation](https://g
 
 import * as vscode from 'vscode'
 
-import { TConfig, alloglot } from './config'
-
-export function makeApiSearch(output: vscode.OutputChannel, config: TConfig): vscode.Disposable {
-  const { languages } = config
-  if (!languages || languages.length === 0) return vscode.Disposable.from()
-
-  output.appendLine(alloglot.ui.creatingApiSearch(languages.map(lang => lang.languageId)))
-
-  const langs: Map<string, string> = new Map()
-  languages.forEach(lang => {
-    lang.languageId && lang.apiSearchUrl && langs.set(lang.languageId, lang.apiSearchUrl)
-  })
+import { Config, TConfig, alloglot } from './config'
 
+/**
+ * Register `Alloglot: Search API`.
+ * `configFor` resolves the configuration of the workspace folder that owns the current document.
+ */
+export function makeApiSearch(output: vscode.OutputChannel, configFor: (uri: vscode.Uri) => TConfig): vscode.Disposable {
   return vscode.commands.registerTextEditorCommand(
     alloglot.commands.apiSearch,
     editor => {
@@ -230,12 +224,14 @@ export function makeApiSearch(output: vscode.OutputChannel, config: TConfig): vs
           : wordRange
             ? document.getText(wordRange)
             : ''
-      const pattern = langs.get(document.languageId)
+      const lang = (configFor(document.uri).languages || []).find(lang => lang.languageId === document.languageId)
+      const pattern = lang && Config.forFile(lang, document.uri, vscode.workspace.getWorkspaceFolder(document.uri)).apiSearchUrl
       const url =
         pattern
           ? pattern.replace('${query}', encodeURI(query))
           : `https://www.google.com/search?q=${encodeURI(query)}`
 
+      output.appendLine(alloglot.ui.openingApiSearch(url))
       vscode.env.openExternal(vscode.Uri.parse(url))
     }
   )
@@ -2,20 +2,51 @@ import * as vscode from 'vscode'
 import * as lsp from 'vscode-languageclient/node'
 
 import { LanguageConfig, alloglot } from './config'
-import { IHierarchicalOutputChannel } from './utils'
+import { IHierarchicalOutputChannel, folderSelector } from './utils'
 
 /**
  * A full-featured generic LSP client.
  * The client launches its own server in a child process and cleans up after itself.
+ * Each workspace folder gets its own client, unless the language is configured with `sharedServer`.
  */
-export function makeClient(output: IHierarchicalOutputChannel, config: LanguageConfig): vscode.Disposable {
-  const { languageId, serverCommand } = config
+export function makeClient(output: IHierarchicalOutputChannel, config: LanguageConfig, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const { languageId, serverCommand, sharedServer } = config
   if (!languageId || !serverCommand) return vscode.Disposable.from()
+  if (sharedServer) return acquireSharedClient(output, languageId, serverCommand, folder)
+  return startClient(output, languageId, serverCommand, folder, folder)
+}
+
+// shared clients are keyed by language and server command, and stop when the last folder using them lets go.
+const sharedClients = new Map<string, { client: vscode.Disposable, users: number }>()
+
+function acquireSharedClient(output: IHierarchicalOutputChannel, languageId: string, serverCommand: string, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const key = `${languageId}\t${serverCommand}`
+  const shared = sharedClients.get(key) || { client: startClient(output, languageId, serverCommand, folder, undefined), users: 0 }
+  shared.users++
+  sharedClients.set(key, shared)
+  output.appendLine(alloglot.ui.usingSharedLanguageClient(shared.users))
+
+  let released = false
+  return vscode.Disposable.from({
+    dispose: () => {
+      if (released) return
+      released = true
+      shared.users--
+      if (shared.users > 0) return
+      sharedClients.delete(key)
+      shared.client.dispose()
+    }
+  })
+}
 
+/**
+ * Start a client whose server runs in `cwd`, for documents in `scope` (or all documents if `scope` is undefined).
+ */
+function startClient(output: IHierarchicalOutputChannel, languageId: string, serverCommand: string, cwd?: vscode.WorkspaceFolder, scope?: vscode.WorkspaceFolder): vscode.Disposable {
   const serverExecutable = {
     command: serverCommand,
     options: {
-      cwd: vscode.workspace.workspaceFolders?.[0].uri.fsPath,
+      cwd: cwd?.uri.fsPath,
       env: process.env
     },
     args: [],
@@ -30,12 +61,17 @@ export function makeClient(output: IHierarchicalOutputChannel, config: LanguageC
   const clientChannel = output.split()
 
   const clientOptions = {
-    documentSelector: [{ scheme: 'file', language: languageId }],
+    // the protocol's document filters take glob strings, not relative patterns.
+    // globs treat `\` as an escape, but match either separator, so Windows paths are written with `/`.
+    documentSelector: [scope
+      ? { scheme: 'file', language: languageId, pattern: `${scope.uri.fsPath.replace(/\\/g, '/')}/**/*` }
+      : { scheme: 'file', language: languageId }
+    ],
     synchronize: { configurationSection: alloglot.root },
     revealOutputChannelOn: lsp.RevealOutputChannelOn.Never,
     outputChannel: clientChannel,
     outputChannelName: clientChannel.name,
-    workspaceFolder: vscode.workspace.workspaceFolders?.[0]
+    workspaceFolder: scope
   }
 
   let client = new lsp.LanguageClient(
@@ -51,7 +87,7 @@ export function makeClient(output: IHierarchicalOutputChannel, config: LanguageC
   output.appendLine(alloglot.ui.languageClientStarted)
 
   const inlayHintsProvider = vscode.languages.registerInlayHintsProvider(
-    languageId,
+    folderSelector(languageId, scope),
     {
       provideInlayHints: async (document, range, token) => {
         try {
@@ -1,6 +1,11 @@
 import { readFileSync } from 'fs'
+import { homedir } from 'os'
+import { isAbsolute, join, posix } from 'path'
 import * as vscode from 'vscode'
 
+import { matchesGlob } from './utils'
+import { IJsonDocument, Problem, Validation } from './validation'
+
 /**
  * Extension configuration.
  */
@@ -29,13 +34,23 @@ export type TConfig = {
 
   /**
    * If `true`, Alloglot will merge `.vscode/alloglot.json` into its config.
+   * Settings take precedence over `.vscode/alloglot.json`, field by field.
+   * Set a field to `null` to disable it rather than fall back to `.vscode/alloglot.json`.
    */
   mergeConfigs?: boolean
 
   /**
-   * Path to GNU Grep. Parsing tags files depends on GNU Grep. (BSD Grep is not supported.)
+   * Path to GNU Grep. Used by tags files configured with `useGrep`. (BSD Grep is not supported.)
    */
   grepPath?: string
+
+  /**
+   * Other configurations to build on, merged with the same rules as `mergeConfigs`.
+   * Later entries take precedence over earlier ones, and this configuration takes precedence over all of them.
+   * Each entry is a path to a JSON file (relative to the file that extends it, or starting with `~/` for the home directory),
+   * or `preset:<name>` for a preset bundled with Alloglot (`preset:haskell`, `preset:hlint`, `preset:ghcid`).
+   */
+  extends?: string | Array<string>
 }
 
 /**
@@ -53,6 +68,13 @@ export type LanguageConfig = {
    */
   serverCommand?: string
 
+  /**
+   * If `true`, one language server serves this language in all workspace folders.
+   * It starts in the first folder that configures it, and stops when no folder configures it anymore.
+   * By default, each workspace folder gets its own language server.
+   */
+  sharedServer?: boolean
+
   inlayHints?: Boolean
 
   /**
@@ -82,10 +104,96 @@ export type LanguageConfig = {
    */
   tags?: Array<TagsConfig>
 
+  /**
+   * Generate a tags file by matching regex patterns against workspace files, instead of running an external tags program.
+   * To use the generated file, list it in `tags` too.
+   */
+  tagsGenerator?: TagsGeneratorConfig
+
   /**
    * A list of files to watch for compiler-generated JSON output.
    */
   annotations?: Array<AnnotationsConfig>
+
+  /**
+   * Settings for the files matching glob patterns, which take precedence over the settings above for those files.
+   * When several overrides match a file, the first one that sets a field wins.
+   */
+  overrides?: Array<LanguageOverride>
+}
+
+/**
+ * Settings for some of the files of a language.
+ * Fields that are left out fall back to the language's settings.
+ */
+export type LanguageOverride = {
+  /**
+   * Glob patterns, relative to the workspace folder, for the files this override applies to, e.g. `legacy/**`.
+   */
+  files: Array<string>
+
+  /**
+   * A formatter shell command for the matching files. See `LanguageConfig`.
+   */
+  formatCommand?: string
+
+  /**
+   * A shell command to run after saving a matching file. See `LanguageConfig`.
+   */
+  onSaveCommand?: string
+
+  /**
+   * A URL pattern for API search from a matching file. See `LanguageConfig`.
+   */
+  apiSearchUrl?: string
+
+  /**
+   * Files to watch for compiler-generated JSON output, whose annotations are shown for the matching files.
+   */
+  annotations?: Array<AnnotationsConfig>
+
+  /**
+   * Tags files to use in the matching files.
+   */
+  tags?: Array<TagsConfig>
+}
+
+export type TagsGeneratorConfig = {
+  /**
+   * The relative path to the tags file to write.
+   * The file is written in standard ctags format, so other tools can use it too.
+   */
+  file: string
+
+  /**
+   * Patterns that find definitions.
+   * The workspace is scanned when Alloglot starts, and a file's tags are updated when it is saved.
+   */
+  patterns: Array<DefinitionPattern>
+
+  /**
+   * A glob pattern of files to skip, e.g. `{node_modules,dist}/**`.
+   */
+  exclude?: string
+}
+
+export type DefinitionPattern = {
+  /**
+   * A regex matched against each line of a file.
+   * The symbol is the capture group named `symbol` if there is one, otherwise the first capture group.
+   * (Remember to double-escape backslashes in JSON strings.)
+   */
+  pattern: string
+
+  /**
+   * The kind of definition, e.g. `function`, `type`, or a ctags kind letter like `f`.
+   */
+  kind?: string
+
+  /**
+   * Glob patterns of files to match, relative to the workspace, e.g. `grammars/**`.
+   */
+  files: Array<string>
 }
 
 export type TagsConfig = {
@@ -94,14 +202,24 @@ export type TagsConfig = {
    */
   file: string
 
+  /**
+   * `ctags` (default) for a Universal/Exuberant Ctags `tags` file.
+   * `etags` for an Emacs-style `TAGS` file.
+   */
+  format?: 'ctags' | 'etags'
+
   /**
    * A command to generate the tags file.
    */
   initTagsCommand?: string
 
   /**
-   * A command to refresh the tags file when a file is saved.
-   * `${file}` will be replaced with the full path to the file.
+   * A command to refresh the tags file when files are saved.
+   * Saves are collected for a moment, and then refreshed in a single batch.
+   * `${files}` will be replaced with the full paths to the saved files, quoted and separated by spaces.
+   * Otherwise, the command runs once per saved file, and `${file}` will be replaced with the full path to the file, quoted.
+   * A command with neither runs once per batch.
+   * A batch waits for the previous batch to finish, and tags lookups use the previous tags file until it does.
    */
   refreshTagsCommand?: string
 
@@ -119,6 +237,47 @@ export type TagsConfig = {
    * Indicates that this tags file should be used to suggest imports for symbols.
    */
   importsProvider?: ImportsProviderConfig
+
+  /**
+   * Indicates that this tags file should be used to search for symbols across the workspace.
+   */
+  workspaceSymbolProvider?: boolean
+
+  /**
+   * Indicates that this tags file should be used to populate the outline and breadcrumbs.
+   */
+  documentSymbolProvider?: boolean
+
+  /**
+   * Indicates that this tags file should be used to show definitions when hovering over a symbol.
+   */
+  hoverProvider?: boolean
+
+  /**
+   * Indicates that this tags file should be used to find references to symbols.
+   * References are found by searching the workspace for whole-word occurrences of symbols defined in the tags file.
+   */
+  referencesProvider?: boolean
+
+  /**
+   * Indicates that this tags file should be used to rename symbols.
+   * Renames replace the same occurrences found by `referencesProvider`, and are always previewed before being applied.
+   */
+  renameProvider?: boolean
+
+  /**
+   * Glob pattern of files to search for references, relative to the workspace folder.
+   * Defaults to files with the same extension as the current document.
+   * Files matched by `files.exclude` are always skipped.
+   */
+  referencesInclude?: string
+
+  /**
+   * Search the tags file with `grep` on every lookup instead of loading it into memory.
+   * Use this for tags files too large to hold in memory.
+   * Requires GNU Grep (see `grepPath`).
+   */
+  useGrep?: boolean
 }
 
 /**
@@ -132,6 +291,12 @@ export type ImportsProviderConfig = {
    */
   importLinePattern: string,
 
+  /**
+   * Additional named import line patterns, e.g. for qualified, aliased, or whole-module imports.
+   * These are offered alongside `importLinePattern` in code actions and `Alloglot: Suggest Imports...`.
+   */
+  importLinePatterns?: Array<ImportLinePattern>
+
   /**
    * Regex pattern matching the part of a file path needed to construct a module name.
    * (We will use the entire _match,_ not the captures.)
@@ -143,8 +308,94 @@ export type ImportsProviderConfig = {
    * A list of transformations to apply to the string matched by `matchFromFilepath`.
    */
   renderModuleName: Array<StringTransformation>
+
+  /**
+   * A list of transformations to apply to the rendered module name to get its alias.
+   * The alias replaces `${alias}` in import line patterns.
+   * If absent, the alias is the module name.
+   */
+  renderAlias?: Array<StringTransformation>
+
+  /**
+   * Separator between a qualifier and a symbol in a qualified usage, e.g. `.` in `Map.insert`.
+   * A qualified usage at the cursor is offered the qualified imports whose alias matches the qualifier.
+   * Default `.`.
+   */
+  qualifierSeparator?: string
+
+  /**
+   * If `true` (default), accepting a completion for a symbol that isn't in scope also adds its import.
+   * Set to `false` to add imports only through code actions and `Alloglot: Suggest Imports...`.
+   */
+  addImportOnCompletion?: boolean
+
+  /**
+   * Separator between symbols in an import line's symbol list.
+   * Used to add a symbol to an existing import of the same module instead of adding a new line.
+   * Default `, `.
+   */
+  symbolSeparator?: string
+
+  /**
+   * How to order import lines.
+   * If present, new import lines are inserted in sorted position within the existing imports.
+   * If absent, new import lines are inserted above the first existing import.
+   */
+  importOrder?: ImportOrder
+}
+
+export type ImportLinePattern = {
+  /**
+   * Name of the pattern, shown in import suggestions, e.g. `qualified`.
+   */
+  name: string
+
+  /**
+   * Pattern to create an import line.
+   * `${module}` will be replaced with the module to import.
+   * `${symbol}` will be replaced with the symbol to expose.
+   * `${alias}` will be replaced with the module's alias.
+   */
+  pattern: string
+
+  /**
+   * If `true`, symbols imported with this pattern can only be used qualified, e.g. `Map.insert` or `numpy.array`.
+   * Qualified imports are offered only for qualified usages.
+   * Default `true` if the pattern has `${alias}`, `false` otherwise.
+   */
+  qualified?: boolean
+}
+
+export type ImportOrder = {
+  /**
+   * Regex patterns matching module names, one per group, in group order.
+   * Imports are sorted by group first, then alphabetically by module name within a group.
+   * Modules that match no group sort last.
+   */
+  groups?: Array<string>
+
+  /**
+   * If `true`, compare module names case-insensitively. Default `false`.
+   */
+  ignoreCase?: boolean
 }
 
+/**
+ * A step in a pipeline that turns a string into a module name or alias.
+ * The pipeline works on an array of segments, starting with the input string.
+ * Whatever segments are left at the end are concatenated without a separator.
+ *
+ * - `replace`: replace all matches of the regex `from` with `to` in each segment.
+ * - `split`: split each segment on `on`.
+ * - `join`: join all segments into one with `with`.
+ * - `toUpper`, `toLower`, `capitalize`: change the case of each segment.
+ * - `capture`: replace each segment with the capture `group` (index or name, default `1`) of the regex `pattern`.
+ *   Segments that don't match are left alone.
+ * - `stripPrefix`, `stripSuffix`: remove `prefix` or `suffix` from each segment that has it.
+ * - `drop`, `take`: drop or keep the first `count` segments, or the last `-count` segments if `count` is negative.
+ * - `camelCase`, `snakeCase`, `kebabCase`: convert the words in each segment.
+ * - `if`: apply `then` to segments matching the regex `matches`, and `else` (if present) to the others.
+ */
 export type StringTransformation
   = { tag: "replace", from: string, to: string }
   | { tag: "split", on: string }
@@ -152,6 +403,15 @@ export type StringTransformation
   | { tag: "toUpper" }
   | { tag: "toLower" }
   | { tag: "capitalize" }
+  | { tag: "capture", pattern: string, group?: number | string }
+  | { tag: "stripPrefix", prefix: string }
+  | { tag: "stripSuffix", suffix: string }
+  | { tag: "drop", count: number }
+  | { tag: "take", count: number }
+  | { tag: "camelCase" }
+  | { tag: "snakeCase" }
+  | { tag: "kebabCase" }
+  | { tag: "if", matches: string, then: Array<StringTransformation>, else?: Array<StringTransformation> }
 
 /**
  * A file to watch for compiler-generated JSON output, and instructions on how to marshal the JSON objects.
@@ -159,19 +419,105 @@ export type StringTransformation
 export type AnnotationsConfig = {
   /**
    * The relative path to the file to watch.
+   * With `command`, nothing is watched, and `file` only names the annotations (it is the default `source` of their diagnostics).
    */
   file: string
 
+  /**
+   * A shell command that writes annotations for one file to STDOUT, instead of watching `file`.
+   * `${file}` will be replaced with the full path to the file.
+   * Only the annotations for that file are shown. With `json` or `jsonl`, annotations without a `file` are for that file.
+   * When the command runs again for a file before it has finished, the earlier run is stopped and its output ignored.
+   */
+  command?: string
+
+  /**
+   * When to run `command` for a file: when it's `open`ed, when it's `save`d,
+   * and/or on `demand` with `Alloglot: Run Annotations Commands`.
+   * Defaults to `["save"]`.
+   */
+  runOn?: Array<'open' | 'save' | 'demand'>
+
   /**
    * `json` for a top-level array of objects.
-   * `jsonl` for a newline-separated stream of objects.
+   * `jsonl` for a newline-separated stream of objects. The file is read as it's appended to, and malformed lines are skipped.
+   * `sarif` for a SARIF 2.1 log, as written by Semgrep, CodeQL, ESLint's SARIF formatter and others.
+   * `text` for plain text, such as compiler output or build logs, read with `patterns`.
    */
-  format: 'json' | 'jsonl'
+  format: 'json' | 'jsonl' | 'sarif' | 'text'
 
   /**
    * Mapping between properties of the JSON objects and properties of `Annotation`.
+   * Required for `json` and `jsonl`. SARIF logs are read without a mapping.
+   */
+  mapping?: AnnotationsMapping
+
+  /**
+   * Regular expressions that find problems in plain text, like the patterns of a VS Code problem matcher.
+   * Required for `text`.
+   * A single pattern describes a problem on one line.
+   * Several patterns match consecutive lines, and together describe one problem.
+   */
+  patterns?: Array<ProblemPattern>
+
+  /**
+   * Whether the lines found by `mapping` count from `0` or from `1`. Defaults to `1`.
+   */
+  lineBase?: 0 | 1
+
+  /**
+   * Whether the columns found by `mapping` count from `0` or from `1`. Defaults to `1`.
+   */
+  columnBase?: 0 | 1
+}
+
+/**
+ * A regular expression, and which of its capture groups hold each property of an `Annotation`.
+ * Capture groups are numbered from 1.
+ */
+export type ProblemPattern = {
+  /**
+   * The regular expression to match against one line of the text.
+   */
+  regexp: string
+
+  /**
+   * Capture group of the file path, relative to the annotations file's directory or absolute.
+   */
+  file?: number
+
+  /**
+   * Capture group of a location, as `line`, `line,column` or `startLine,startColumn,endLine,endColumn`.
+   * An alternative to `line`, `column`, `endLine` and `endColumn`.
+   */
+  location?: number
+
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+
+  /**
+   * Capture group of the severity. Text containing `error`, `warning`, `info` or `hint` (in any case) is recognized.
+   */
+  severity?: number
+
+  /**
+   * Capture group of the message.
+   * In a multi-line pattern, the messages of each line that captures one are joined with newlines.
+   */
+  message?: number
+
+  /**
+   * Capture group of the error code.
+   */
+  code?: number
+
+  /**
+   * For the last pattern of a multi-line pattern: keep matching this pattern on the following lines,
+   * and make a problem of each match, sharing what the earlier patterns matched.
    */
-  mapping: AnnotationsMapping
+  loop?: boolean
 }
 
 /**
@@ -188,45 +534,169 @@ export type Annotation = {
   message: string
   replacements: Array<string>
   referenceCode?: string
+  referenceUri?: string
+  startOffset?: number
+  endOffset?: number
+  fixes?: Array<AnnotationFix>
+  relatedLocations?: Array<AnnotationLocation>
+}
+
+/**
+ * A place in a file that is relevant to an annotation, with 1-based lines and columns.
+ */
+export type AnnotationLocation = {
+  file: string
+  startLine: number
+  startColumn: number
+  endLine: number
+  endColumn: number
+  message: string
+}
+
+/**
+ * A fix for an annotation: replacements of ranges, possibly in several files.
+ */
+export type AnnotationFix = {
+  description?: string
+  edits: Array<AnnotationEdit>
+}
+
+/**
+ * Replace a range of a file, with 1-based lines and columns, with `text`.
+ */
+export type AnnotationEdit = {
+  file: string
+  startLine: number
+  startColumn: number
+  endLine: number
+  endColumn: number
+  text: string
 }
 
 /**
  * Mapping between arbitrary JSON object and properties of `Annotation`.
- * Each property is an array of strings that will be used as a path into the JSON object.
+ * Each property is a `MappingValue` that says where to find the property in the JSON object.
  */
 export type AnnotationsMapping = {
-  message: Array<string>
-  file?: Array<string>
-  startLine?: Array<string>
-  startColumn?: Array<string>
-  endLine?: Array<string>
-  endColumn?: Array<string>
-  source?: Array<string>
-  severity?: Array<string>
-  replacements?: Array<string>
-  referenceCode?: Array<string>
+  message: MappingValue
+  file?: MappingValue
+  startLine?: MappingValue
+  startColumn?: MappingValue
+  endLine?: MappingValue
+  endColumn?: MappingValue
+
+  /**
+   * Byte offsets from the start of the file, e.g. rustc's `byte_start` and `byte_end`.
+   * Used instead of lines and columns when they're found.
+   */
+  startOffset?: MappingValue
+  endOffset?: MappingValue
+
+  source?: MappingValue
+  severity?: MappingValue
+
+  /**
+   * Severities for the values found by `severity`, e.g. `{ "1": "error", "2": "warning" }`.
+   * Values that aren't listed are recognized by whether they contain `error`, `warning`, `info` or `hint`.
+   */
+  severities?: { [value: string]: 'error' | 'warning' | 'info' | 'hint' }
+
+  replacements?: MappingValue
+  referenceCode?: MappingValue
+}
+
+/**
+ * Where to find a value in a JSON object. One of:
+ * - A path of object keys and array indices, e.g. `["spans", 0, "line_start"]`.
+ *   `"*"` stands for every item of an array (or value of an object), and the first item with a value is used.
+ *   (`replacements` uses all of them.)
+ * - Paths to try in order, e.g. `[["end", "line"], ["start", "line"]]`. The first path with a value is used.
+ * - A template, e.g. `{ "template": "${code}: ${spans.0.label}" }`.
+ *   Each `${...}` is replaced by the value at a dot-separated path, or by nothing if there isn't one.
+ */
+export type MappingValue = MappingPath | Array<MappingPath> | MappingTemplate
+
+export type MappingPath = Array<string | number>
+
+export type MappingTemplate = {
+  template: string
 }
 
 export namespace Config {
-  export function make(output: vscode.OutputChannel): TConfig {
-    const workspace = readWorkspace(output)
-    const fallback = readFallback(output)
+  /**
+   * A resolved configuration, and where each of its values came from.
+   */
+  export type Resolved = {
+    config: TConfig
+
+    /**
+     * The source of the value at `path` (object keys and array indices into `config`),
+     * e.g. `user settings` or `.vscode/alloglot.json`.
+     */
+    sourceOf(path: Path): string | undefined
+
+    /**
+     * Problems found in configuration files, for a diagnostics collection.
+     */
+    diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]>
+  }
 
-    if (workspace?.mergeConfigs && fallback) {
+  export type Path = Array<string | number>
+
+  /**
+   * Resolve the configuration for a workspace folder,
+   * from the settings as they apply to that folder and the folder's `.vscode/alloglot.json`.
+   * Without a folder, only the user and workspace settings are read.
+   */
+  export function make(output: vscode.OutputChannel, folder?: vscode.WorkspaceFolder): TConfig {
+    return resolve(output, folder).config
+  }
+
+  /**
+   * The settings of a language for one file, with the fields of the first matching override taking precedence.
+   */
+  export function forFile(config: LanguageConfig, uri: vscode.Uri, folder?: vscode.WorkspaceFolder): LanguageConfig {
+    if (!config.overrides?.length) return config
+    const path = folder ? posix.relative(folder.uri.path, uri.path) : vscode.workspace.asRelativePath(uri, false)
+    const matching = config.overrides.filter(override => override.files.some(glob => matchesGlob(glob, path)))
+    const first = <K extends keyof LanguageOverride>(field: K) => matching.find(override => override[field] !== undefined)?.[field]
+    return {
+      ...config,
+      formatCommand: first('formatCommand') ?? config.formatCommand,
+      onSaveCommand: first('onSaveCommand') ?? config.onSaveCommand,
+      apiSearchUrl: first('apiSearchUrl') ?? config.apiSearchUrl,
+      annotations: first('annotations') ?? config.annotations,
+      tags: first('tags') ?? config.tags
+    }
+  }
+
+  /**
+   * Like {@link make}, but also keeps track of which source each value came from.
+   */
+  export function resolve(output: vscode.OutputChannel, folder?: vscode.WorkspaceFolder): Resolved {
+    const diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]> = []
+    const workspace = readWorkspace(output, diagnostics, folder)
+    const fallback = readFallback(output, diagnostics, folder)
+
+    let layer: Layer
+    if (workspace?.value.mergeConfigs && fallback) {
       output.appendLine(alloglot.ui.mergingConfigs)
-      return merge(sanitize(output, workspace), sanitize(output, fallback))
+      layer = merge(workspace, fallback)
     } else {
-      return sanitize(output, workspace || fallback || empty)
+      // merging with nothing still drops the fields disabled with `null`.
+      layer = merge(workspace || fallback || empty, empty)
     }
+
+    const { sources } = layer
+    return { config: validate(output, layer.value), sourceOf: path => lookup(sources, path), diagnostics }
   }
 
-  function readFallback(output: vscode.OutputChannel): TConfig | undefined {
+  function readFallback(output: vscode.OutputChannel, diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]>, folder?: vscode.WorkspaceFolder): Layer | undefined {
     try {
-      const workspaceFolders = vscode.workspace.workspaceFolders?.map(folder => folder.uri)
-      if (workspaceFolders && workspaceFolders.length > 0) {
-        const fullPath = vscode.Uri.joinPath(workspaceFolders[0], alloglot.config.fallbackPath)
+      if (folder) {
+        const fullPath = vscode.Uri.joinPath(folder.uri, alloglot.config.fallbackPath)
         output.appendLine(alloglot.ui.readingFallbackConfig(fullPath.path))
-        return JSON.parse(readFileSync(fullPath.path, 'utf-8'))
+        return readFile(output, diagnostics, fullPath, alloglot.config.fallbackPath, new Set([fullPath.toString()]))
       } else {
         output.appendLine(alloglot.ui.noWorkspaceFolders)
         return undefined
@@ -237,55 +707,223 @@ export namespace Config {
     }
   }
 
-  function readWorkspace(output: vscode.OutputChannel): TConfig | undefined {
+  function readWorkspace(output: vscode.OutputChannel, diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]>, folder?: vscode.WorkspaceFolder): Layer | undefined {
     try {
       output.appendLine(alloglot.ui.readingWorkspaceSettings)
-      const workspaceSettings = vscode.workspace.getConfiguration(alloglot.config.root)
-      const activateCommand = workspaceSettings.get<string>(alloglot.config.activateCommand)
-      const revealActivateCommandOutput = workspaceSettings.get<boolean>(alloglot.config.revealActivateCommandOutput)
-      const languages = workspaceSettings.get<Array<LanguageConfig>>(alloglot.config.languages)
-      const verboseOutput = workspaceSettings.get<boolean>(alloglot.config.verboseOutput)
-      const mergeConfigs = workspaceSettings.get<boolean>(alloglot.config.mergeConfigs)
-      const grepPath = workspaceSettings.get<string>(alloglot.config.grepPath)
-      const settingsExist = !!activateCommand || !!revealActivateCommandOutput || !!languages || !!verboseOutput || !!mergeConfigs || !!grepPath
+      const workspaceSettings = vscode.workspace.getConfiguration(alloglot.config.root, folder)
+
+      // every setting defaults to `null` in `package.json`, and `null` disables a field when merging,
+      // so only the values set in the user, workspace or folder settings count.
+      const explicit = <T>(setting: string): T | undefined => {
+        const inspected = workspaceSettings.inspect<T>(setting)
+        return [inspected?.workspaceFolderValue, inspected?.workspaceValue, inspected?.globalValue].find(x => x !== undefined)
+      }
+
+      const activateCommand = explicit<string>(alloglot.config.activateCommand)
+      const revealActivateCommandOutput = explicit<boolean>(alloglot.config.revealActivateCommandOutput)
+      const languages = explicit<Array<LanguageConfig>>(alloglot.config.languages)
+      const verboseOutput = explicit<boolean>(alloglot.config.verboseOutput)
+      const mergeConfigs = explicit<boolean>(alloglot.config.mergeConfigs)
+      const grepPath = explicit<string>(alloglot.config.grepPath)
+      const extendsConfigs = explicit<string | Array<string>>(alloglot.config.extendsConfigs)
+      const settingsExist = !!activateCommand || !!revealActivateCommandOutput || !!languages || !!verboseOutput || !!mergeConfigs || !!grepPath || !!extendsConfigs
       output.appendLine(alloglot.ui.workspaceConfigExists(settingsExist))
-      if (settingsExist) return { activateCommand, revealActivateCommandOutput, languages, verboseOutput, mergeConfigs, grepPath }
-      return undefined
+      if (!settingsExist) return undefined
+
+      // VS Code checks settings against the schema in `package.json`, but only warns about problems.
+      const report = (path: Path, message: string) => output.appendLine(alloglot.ui.invalidSetting(path, message))
+      const settings: any = { activateCommand, revealActivateCommandOutput, languages, verboseOutput, mergeConfigs, grepPath, extends: extendsConfigs }
+      Object.keys(settings).forEach(setting => settings[setting] === undefined && delete settings[setting])
+      const value = sanitize(output, checkSchema(output, settings, problem => report(problem.path, problem.message)))
+
+      // VS Code resolves each top-level setting on its own, so each one can come from a different level.
+      const sources: Sources = new Map()
+      Object.keys(value).forEach(setting => {
+        const inspected = workspaceSettings.inspect(setting)
+        const source =
+          inspected?.workspaceFolderValue !== undefined ? alloglot.ui.folderSettings
+            : inspected?.workspaceValue !== undefined ? alloglot.ui.workspaceSettings
+              : alloglot.ui.userSettings
+        sources.set(key([setting]), source)
+      })
+
+      return readExtends(output, diagnostics, { value, sources }, folder?.uri, new Set(), report)
     } catch (err) {
       output.appendLine(alloglot.ui.couldNotReadWorkspace(err))
       return undefined
     }
   }
 
-  const empty: TConfig = {}
+  /**
+   * Read a configuration file, and the files it extends.
+   * Problems are reported as diagnostics on the file.
+   * `seen` holds the files and presets already being read, to catch cycles.
+   */
+  function readFile(output: vscode.OutputChannel, diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]>, uri: vscode.Uri, label: string, seen: Set<string>): Layer {
+    const text = readFileSync(uri.fsPath, 'utf-8')
+
+    const problems: Array<vscode.Diagnostic> = []
+    diagnostics.push([uri, problems])
+    const report = (range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity) => {
+      const diagnostic = new vscode.Diagnostic(range, message, severity)
+      diagnostic.source = alloglot.root
+      problems.push(diagnostic)
+    }
+
+    let document: IJsonDocument
+    try {
+      document = Validation.parse(text)
+    } catch (err) {
+      if (err instanceof Validation.JsonSyntaxError) {
+        const position = Validation.positionAt(text, err.offset)
+        report(new vscode.Range(position, position), alloglot.ui.invalidJson(err.message), vscode.DiagnosticSeverity.Error)
+      }
+      throw err
+    }
+
+    const rangeOf = (path: Path) => document.rangeOf(path) || new vscode.Range(0, 0, 0, 0)
+    const value = sanitize(output, checkSchema(output, document.value, problem => report(
+      rangeOf(problem.path),
+      problem.message,
+      problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    )))
+
+    const layer = { value, sources: new Map([[key([]), label]]) }
+    const basedir = vscode.Uri.joinPath(uri, '..')
+    return readExtends(output, diagnostics, layer, basedir, seen, (path, message) => report(rangeOf(path), message, vscode.DiagnosticSeverity.Error))
+  }
+
+  /**
+   * Merge the configurations listed in `extends` under `layer`.
+   * Later entries take precedence over earlier ones, and `layer` takes precedence over all of them.
+   * Relative paths are resolved from `basedir`.
+   */
+  function readExtends(output: vscode.OutputChannel, diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]>, layer: Layer, basedir: vscode.Uri | undefined, seen: Set<string>, report: (path: Path, message: string) => void): Layer {
+    const entries: Array<string> | string | undefined = layer.value.extends
+    if (!entries) return layer
+    const targets = typeof entries === 'string' ? [{ target: entries, path: ['extends'] }] : entries.map((target, i) => ({ target, path: ['extends', i] }))
+
+    const base = targets.reduce<Layer>((base, { target, path }) => {
+      const extended = readExtended(output, diagnostics, target.trim(), basedir, seen, message => report(path, message))
+      return extended ? merge(extended, base) : base
+    }, empty)
+
+    return merge(layer, base)
+  }
+
+  function readExtended(output: vscode.OutputChannel, diagnostics: Array<[vscode.Uri, Array<vscode.Diagnostic>]>, target: string, basedir: vscode.Uri | undefined, seen: Set<string>, report: (message: string) => void): Layer | undefined {
+    if (target.startsWith(presetPrefix)) {
+      const name = target.slice(presetPrefix.length)
+      const preset = presets[name]
+      if (!preset) return void report(alloglot.ui.unknownPreset(name, Object.keys(presets)))
+      if (seen.has(target)) return void report(alloglot.ui.extendsCycle(target))
+
+      output.appendLine(alloglot.ui.readingPreset(name))
+      // presets are shared, and sanitizing changes the configuration in place.
+      const value = sanitize(output, checkSchema(output, JSON.parse(JSON.stringify(preset)), problem => output.appendLine(alloglot.ui.invalidPreset(name, problem.path, problem.message))))
+      const layer = { value, sources: new Map([[key([]), target]]) }
+      return readExtends(output, diagnostics, layer, undefined, new Set([...seen, target]), (path, message) => output.appendLine(alloglot.ui.invalidPreset(name, path, message)))
+    }
+
+    const uri =
+      target.startsWith('~/') ? vscode.Uri.file(join(homedir(), target.slice(2)))
+        : isAbsolute(target) ? vscode.Uri.file(target)
+          : basedir && vscode.Uri.joinPath(basedir, target)
+    if (!uri) return void report(alloglot.ui.cannotResolveExtends(target))
+    if (seen.has(uri.toString())) return void report(alloglot.ui.extendsCycle(target))
+
+    try {
+      output.appendLine(alloglot.ui.readingExtendedConfig(uri.fsPath))
+      return readFile(output, diagnostics, uri, target, new Set([...seen, uri.toString()]))
+    } catch (err) {
+      report(alloglot.ui.couldNotReadExtended(target, err))
+      return undefined
+    }
+  }
+
+  const presetPrefix = 'preset:'
+
+  // bundled presets, for `"extends": "preset:<name>"`.
+  const presets: { [name: string]: TConfig } = {
+    ghcid: require('../presets/ghcid.json'),
+    haskell: require('../presets/haskell.json'),
+    hlint: require('../presets/hlint.json')
+  }
+
+  const empty: Layer = { value: {}, sources: new Map() }
+
+  // generated from the types in this file by `npm run schema`.
+  const schema = require('../schemas/alloglot.schema.json')
+
+  /**
+   * Report the problems with a configuration from one source, and drop the parts with errors.
+   * A malformed language is dropped on its own, so the other languages keep working.
+   */
+  function checkSchema(output: vscode.OutputChannel, config: any, report: (problem: Problem) => void): TConfig {
+    const problems = Validation.validate(schema, config)
+    problems.forEach(report)
+
+    const errors = problems.filter(problem => problem.severity === 'error')
+    if (errors.some(problem => problem.path.length === 0)) return {}
+
+    const invalidSettings = new Set<string>()
+    const invalidLanguages = new Set<number>()
+    errors.forEach(({ path: [setting, index] }) => {
+      if (setting === alloglot.config.languages && typeof index === 'number') invalidLanguages.add(index)
+      else invalidSettings.add(`${setting}`)
+    })
+
+    invalidSettings.forEach(setting => {
+      output.appendLine(alloglot.ui.droppingInvalidSetting(setting))
+      delete config[setting]
+    })
 
+    if (Array.isArray(config.languages)) {
+      config.languages = config.languages.filter((lang: any, i: number) => {
+        if (!invalidLanguages.has(i)) return true
+        output.appendLine(alloglot.ui.droppingInvalidLanguage(lang?.languageId ?? i))
+        return false
+      })
+    }
+
+    return config
+  }
+
+  /**
+   * Trim strings, and drop array items that are missing the field they are merged by.
+   * Runs on each source before merging, so sources can leave out fields that another source provides.
+   */
   function sanitize(output: vscode.OutputChannel, config: TConfig): TConfig {
     try {
-      config.activateCommand = config.activateCommand?.trim()
-      config.grepPath = config.grepPath?.trim()
+      // editors add `$schema` to files that use the JSON schema.
+      delete (config as any).$schema
+      config.activateCommand = trim(config.activateCommand)
+      config.grepPath = trim(config.grepPath)
       config.languages = config.languages?.filter(lang => {
 
-        lang.languageId = lang.languageId.trim()
-        lang.serverCommand = lang.serverCommand?.trim()
-        lang.formatCommand = lang.formatCommand?.trim()
-        lang.onSaveCommand = lang.onSaveCommand?.trim()
-        lang.apiSearchUrl = lang.apiSearchUrl?.trim()
+        lang.languageId = lang.languageId?.trim()
+        lang.serverCommand = trim(lang.serverCommand)
+        lang.formatCommand = trim(lang.formatCommand)
+        lang.onSaveCommand = trim(lang.onSaveCommand)
+        lang.apiSearchUrl = trim(lang.apiSearchUrl)
 
-        lang.annotations = lang.annotations?.filter(ann => {
-          ann.file = ann.file.trim()
-          return ann.file
-        })
-        if (lang.annotations) lang.annotations = arrayUniqueBy(ann => ann.file, lang.annotations)
-
-        lang.tags = lang.tags?.filter(tag => {
-          tag.file = tag.file.trim()
-          tag.initTagsCommand = tag.initTagsCommand?.trim()
-          tag.refreshTagsCommand = tag.refreshTagsCommand?.trim()
-          if (!tag?.importsProvider?.importLinePattern.trim()) tag.importsProvider = undefined
-          if (!tag?.importsProvider?.matchFromFilepath.trim()) tag.importsProvider = undefined
-          return tag.file
+        lang.annotations = sanitizeAnnotations(lang.annotations)
+        lang.tags = sanitizeTags(lang.tags)
+
+        lang.overrides = lang.overrides?.filter(override => {
+          override.files = override.files?.map(glob => glob.trim()).filter(glob => glob)
+          override.formatCommand = trim(override.formatCommand)
+          override.onSaveCommand = trim(override.onSaveCommand)
+          override.apiSearchUrl = trim(override.apiSearchUrl)
+          override.annotations = sanitizeAnnotations(override.annotations)
+          override.tags = sanitizeTags(override.tags)
+          return override.files?.length > 0
         })
-        if (lang.tags) lang.tags = arrayUniqueBy(tag => tag.file, lang.tags)
+
+        if (lang.tagsGenerator) {
+          lang.tagsGenerator.file = lang.tagsGenerator.file?.trim()
+          lang.tagsGenerator.patterns = lang.tagsGenerator.patterns?.filter(pattern => pattern.pattern && pattern.files?.length > 0)
+        }
 
         return lang.languageId
       })
@@ -294,40 +932,185 @@ export namespace Config {
       return config
     } catch (err) {
       output.appendLine(alloglot.ui.couldNotSanitizeConfig(err))
-      return empty
+      return {}
     }
   }
 
-  function merge(mask: TConfig, base: TConfig): TConfig {
-    return {
-      activateCommand: mask.activateCommand || base.activateCommand,
-      languages: arrayMerge(mask.languages || [], base.languages || [], lang => lang.languageId, languageMerge),
-      revealActivateCommandOutput: typeof mask.revealActivateCommandOutput === 'boolean' ? mask.revealActivateCommandOutput : base.revealActivateCommandOutput,
-      verboseOutput: typeof mask.verboseOutput === 'boolean' ? mask.verboseOutput : base.verboseOutput,
-      mergeConfigs: typeof mask.mergeConfigs === 'boolean' ? mask.mergeConfigs : base.mergeConfigs
+  function sanitizeAnnotations(annotations?: Array<AnnotationsConfig>): Array<AnnotationsConfig> | undefined {
+    return annotations && arrayUniqueBy(ann => ann.file, annotations.filter(ann => {
+      ann.file = ann.file?.trim()
+      ann.command = trim(ann.command)
+      if (ann.patterns) ann.patterns = ann.patterns.filter(pattern => pattern.regexp)
+      return ann.file
+    }))
+  }
+
+  function sanitizeTags(tags?: Array<TagsConfig>): Array<TagsConfig> | undefined {
+    return tags && arrayUniqueBy(tag => tag.file, tags.filter(tag => {
+      tag.file = tag.file?.trim()
+      tag.initTagsCommand = trim(tag.initTagsCommand)
+      tag.refreshTagsCommand = trim(tag.refreshTagsCommand)
+      if (tag.importsProvider?.importLinePatterns) {
+        tag.importsProvider.importLinePatterns = tag.importsProvider.importLinePatterns.filter(pattern => pattern.name && pattern.pattern?.trim())
+      }
+      return tag.file
+    }))
+  }
+
+  /**
+   * Drop the parts of the merged configuration that are missing required fields.
+   */
+  function validate(output: vscode.OutputChannel, config: TConfig): TConfig {
+    try {
+      config.languages?.forEach(lang => {
+        [...lang.tags || [], ...lang.overrides?.flatMap(override => override.tags || []) || []].forEach(tag => {
+          if (!tag.importsProvider?.importLinePattern?.trim()) tag.importsProvider = undefined
+          if (!tag.importsProvider?.matchFromFilepath?.trim()) tag.importsProvider = undefined
+        })
+        if (!lang.tagsGenerator?.file || !lang.tagsGenerator?.patterns?.length) lang.tagsGenerator = undefined
+        const hasMapping = (ann: AnnotationsConfig) =>
+          ann.format === 'sarif' || (ann.format === 'text' ? !!ann.patterns?.length : !!ann.mapping?.message)
+        lang.annotations = lang.annotations?.filter(hasMapping)
+        lang.overrides?.forEach(override => override.annotations = override.annotations?.filter(hasMapping))
+      })
+      return config
+    } catch (err) {
+      output.appendLine(alloglot.ui.couldNotSanitizeConfig(err))
+      return {}
     }
   }
 
-  function languageMerge(mask: LanguageConfig, base: LanguageConfig): LanguageConfig {
-    return {
-      languageId: mask.languageId,
-      serverCommand: mask.serverCommand || base.serverCommand,
-      formatCommand: mask.formatCommand || base.formatCommand,
-      apiSearchUrl: mask.apiSearchUrl || base.apiSearchUrl,
-      tags: arrayMerge(mask.tags || [], base.tags || [], tag => tag.file, tagMerge),
-      annotations: arrayMerge(mask.annotations || [], base.annotations || [], ann => ann.file, (mask, base) => mask)
+  /**
+   * How to merge a field that is set in both sources.
+   * `override`: the mask's value replaces the base's value.
+   * `append`: the mask's items come first, followed by the base's items that aren't in the mask.
+   * `fields`: objects are merged field by field. Fields not listed are overridden.
+   * `key`: items with the same `key` are merged field by field, and other items are appended.
+   * In any source, a field set to `null` is disabled, and doesn't fall back to the other source.
+   */
+  type Strategy =
+    | 'override'
+    | 'append'
+    | { fields: { [field: string]: Strategy } }
+    | { key: string, fields: { [field: string]: Strategy } }
+
+  const importsProviderStrategy: Strategy = {
+    fields: {
+      importLinePatterns: { key: 'name', fields: {} },
+      importOrder: { fields: {} }
     }
   }
 
-  function tagMerge(mask: TagsConfig, base: TagsConfig): TagsConfig {
-    return {
-      file: mask.file,
-      completionsProvider: typeof mask.completionsProvider === 'boolean' ? mask.completionsProvider : base.completionsProvider,
-      definitionsProvider: typeof mask.definitionsProvider === 'boolean' ? mask.definitionsProvider : base.definitionsProvider,
-      importsProvider: mask.importsProvider || base.importsProvider,
-      initTagsCommand: mask.initTagsCommand || base.initTagsCommand,
-      refreshTagsCommand: mask.refreshTagsCommand || base.refreshTagsCommand
+  const languageStrategy: Strategy = {
+    key: 'languageId',
+    fields: {
+      tags: { key: 'file', fields: { importsProvider: importsProviderStrategy } },
+      tagsGenerator: { fields: { patterns: 'append' } },
+      overrides: 'append',
+      annotations: { key: 'file', fields: { mapping: { fields: {} } } }
+    }
+  }
+
+  const configStrategy: Strategy = {
+    fields: {
+      languages: languageStrategy
+    }
+  }
+
+  // sources are keyed by path, and apply to everything under that path unless something more specific is recorded.
+  type Sources = Map<string, string>
+
+  type Layer = { value: any, sources: Sources }
+
+  // a value being merged, and where it is in the layer it came from.
+  type Origin = { value: any, path: Path, sources: Sources }
+
+  const absent: Origin = { value: undefined, path: [], sources: new Map() }
+
+  function merge(mask: Layer, base: Layer): Layer {
+    const sources: Sources = new Map()
+    const value = mergeValue(configStrategy, { ...mask, path: [] }, { ...base, path: [] }, [], sources)
+    return { value: value || {}, sources }
+  }
+
+  function mergeValue(strategy: Strategy, mask: Origin, base: Origin, path: Path, sources: Sources): any {
+    if (mask.value === null) return undefined
+    if (mask.value === undefined) return base.value === undefined ? undefined : mergeValue(strategy, base, absent, path, sources)
+    if (base.value === null) base = absent
+
+    const override = () => {
+      attribute(sources, path, mask)
+      return mask.value
     }
+
+    if (strategy === 'override') return override()
+
+    if (strategy === 'append') {
+      if (!Array.isArray(mask.value) || !Array.isArray(base.value || [])) return override()
+      const masks = mask.value.map((_, i) => child(mask, i))
+      const bases = (base.value || []).map((_: any, i: number) => child(base, i))
+        .filter((b: Origin) => !masks.some(m => JSON.stringify(m.value) === JSON.stringify(b.value)))
+      return [...masks, ...bases].map((origin, i) => {
+        attribute(sources, [...path, i], origin)
+        return origin.value
+      })
+    }
+
+    if ('key' in strategy) {
+      if (!Array.isArray(mask.value) || !Array.isArray(base.value || [])) return override()
+      const { key, fields } = strategy
+      const masks = mask.value.map((_, i) => child(mask, i))
+      const bases: Array<Origin> = (base.value || []).map((_: any, i: number) => child(base, i))
+      const sameKey = (l: Origin) => (r: Origin) => l.value?.[key] === r.value?.[key]
+      const result: Array<any> = []
+      const push = (value: any) => value !== undefined && result.push(value)
+      masks.forEach(m => push(mergeValue({ fields }, m, bases.find(sameKey(m)) || absent, [...path, result.length], sources)))
+      bases.filter(b => !masks.some(sameKey(b))).forEach(b => push(mergeValue({ fields }, b, absent, [...path, result.length], sources)))
+      return result
+    }
+
+    if (typeof mask.value !== 'object' || Array.isArray(mask.value)) return override()
+    if (typeof base.value !== 'object' || Array.isArray(base.value)) base = absent
+    const result: any = {}
+    const fields = new Set([...Object.keys(mask.value), ...Object.keys(base.value || {})])
+    fields.forEach(field => {
+      const value = mergeValue(strategy.fields[field] || 'override', child(mask, field), child(base, field), [...path, field], sources)
+      if (value !== undefined) result[field] = value
+    })
+    return result
+  }
+
+  function child(origin: Origin, field: string | number): Origin {
+    return { value: origin.value?.[field], path: [...origin.path, field], sources: origin.sources }
+  }
+
+  // record that the value at `path` came from `origin`, including anything more specific recorded under it.
+  function attribute(sources: Sources, path: Path, origin: Origin): void {
+    const source = lookup(origin.sources, origin.path)
+    source && sources.set(key(path), source)
+    origin.sources.forEach((source, k) => {
+      const p: Path = JSON.parse(k)
+      if (p.length > origin.path.length && key(p.slice(0, origin.path.length)) === key(origin.path)) {
+        sources.set(key([...path, ...p.slice(origin.path.length)]), source)
+      }
+    })
+  }
+
+  function lookup(sources: Sources, path: Path): string | undefined {
+    for (let i = path.length; i >= 0; i--) {
+      const source = sources.get(key(path.slice(0, i)))
+      if (source) return source
+    }
+    return undefined
+  }
+
+  function key(path: Path): string {
+    return JSON.stringify(path)
+  }
+
+  // keeps `null`, which disables a field.
+  function trim<T>(x: T): T {
+    return (typeof x === 'string' ? x.trim() : x) as T
   }
 
   function arrayUniqueBy<K, V>(key: (val: V) => K, xs: Array<V>): Array<V> {
@@ -354,68 +1137,152 @@ export namespace alloglot {
   export namespace ui {
     export const activateCommandDone = (cmd: string) => `Activation command “${cmd}” has completed.`
     export const addImport = (moduleName: string) => `Add import: ${moduleName}`
+    export const addNamedImport = (name: string, moduleName: string) => `Add ${name} import: ${moduleName}`
+    export const alreadyImported = (symbol: string, moduleName: string) => `Symbol ${symbol} is already imported from ${moduleName}.`
     export const annotationsStarted = 'Annotations started.'
     export const appliedEdit = (success: boolean) => `Applied edit: ${success}`
     export const applyingTransformation = (t: any, xs: Array<string>) => `Applying single transformation ${JSON.stringify(t)} to split string array ${xs}`
     export const applyingTransformations = (t: any, x: string) => `Applying transformations ${JSON.stringify(t)} to string ${x}`
+    export const cannotGrepEtags = 'Etags files cannot be searched with grep. Loading into memory instead.'
+    export const cannotResolveExtends = (target: string) => `Cannot resolve ${target} without a workspace folder.`
     export const commandKilled = (cmd: string) => `Killed “${cmd}”.`
     export const commandNoOutput = (cmd: string) => `Received no output from “${cmd}”.`
+    export const couldNotReadAnnotations = (source: string, err: any) => `Could not read annotations from ${source}: ${err}`
+    export const couldNotReadExtended = (target: string, err: any) => `Could not read extended configuration ${target}: ${err}`
     export const couldNotReadFallback = (err: any) => `Could not read fallback configuration: ${err}`
+    export const couldNotLoadTagsIndex = (err: any) => `Could not load tags index: ${err}`
+    export const couldNotReadTaggedFile = (path: string, err: any) => `Could not read tagged file ${path}: ${err}`
     export const couldNotReadWorkspace = (err: any) => `Could not read workspace configuration: ${err}`
     export const couldNotSanitizeConfig = (err: any) => `Configuration is malformed: ${err}`
-    export const creatingApiSearch = (langIds: Array<string>) => `Creating API search command for languages: ${langIds}`
+    export const couldNotScanFile = (path: string, err: any) => `Could not scan file ${path} for tags: ${err}`
+    export const couldNotWriteGeneratedTags = (path: string, err: any) => `Could not write generated tags file ${path}: ${err}`
     export const creatingTagsSource = (path: string) => `Creating tags source for path: ${path}`
+    export const droppingInvalidLanguage = (languageId: string | number) => `Ignoring language ${languageId} because its configuration has errors.`
+    export const droppingInvalidSetting = (setting: string) => `Ignoring setting ${setting} because it has errors.`
+    export const effectiveConfigHeader = (folder?: string) => `// Effective Alloglot configuration${folder ? ` for workspace folder ${folder}` : ''}. Each value is annotated with the source it came from.`
     export const errorKillingCommand = (cmd: string, err: any) => `Error killing “${cmd}”:\n\t${err}`
     export const errorRunningCommand = (cmd: string, err: any) => `Error running “${cmd}”:\n\t${err}`
+    export const extendingImport = (line: number) => `Extending import at line ${line}`
+    export const extendsCycle = (target: string) => `Configuration ${target} extends itself.`
     export const fileMatcherResult = (result: any) => `Match: ${result}`
     export const findingImportPosition = 'Finding import position...'
+    export const folderSettings = 'workspace folder settings'
     export const formatterStarted = 'Formatter started.'
     export const foundBlankLine = (line: number) => `Found blank line at line ${line}`
+    export const foundQualifier = (qualifier: string) => `Found qualifier: ${qualifier}`
     export const foundImportPosition = (line: number) => `Found import at line ${line}`
+    export const foundPseudoTag = (pseudoTag: any) => `Found pseudo-tag: ${JSON.stringify(pseudoTag)}`
+    export const invalidJson = (message: string) => `Invalid JSON: ${message}`
+    export const invalidPreset = (name: string, path: Array<string | number>, message: string) => `Problem with preset ${name} at ${path.join('.')}: ${message}`
+    export const invalidSetting = (path: Array<string | number>, message: string) => `Problem with setting ${path.join('.')}: ${message}`
+    export const invalidTagsPattern = (pattern: string, err: any) => `Invalid tags pattern ${pattern}, skipping it: ${err}`
+    export const jsonExpected = (token: string) => `Expected ${token}.`
+    export const jsonExpectedString = 'Expected a string.'
+    export const jsonExpectedValue = 'Expected a value.'
+    export const jsonUnexpectedContent = 'Unexpected content after the end of the value.'
     export const killingCommand = (cmd: string) => `Killing “${cmd}”...`
     export const languageClientStarted = 'Language client started.'
     export const languageClientStopped = 'Language client stopped.'
+    export const loadedTagsIndex = (count: number) => `Loaded ${count} tags into index.`
+    export const loadingTagsIndex = (path: string) => `Loading tags index from path: ${path}`
     export const makingImportSuggestion = (tag: any) => `Making import suggestion for tag: ${JSON.stringify(tag)}`
+    export const malformedAnnotation = (source: string, line: number, err: any) => `Skipped malformed record on line ${line} of ${source}: ${err}`
     export const mergingConfigs = 'Merging workspace configuration with “.vscode/alloglot.json”...'
+    export const moreDefinitions = '_More definitions not shown._'
     export const noBlankLineFound = 'No blank line found. Inserting import at start of file.'
+    export const noImportsProvider = (languageId: string) => `No imports provider is configured for language ${languageId}.`
     export const noWorkspaceFolders = 'No workspace folders found. Cannot read fallback configuration.'
+    export const notATaggedSymbol = 'Cannot rename: not a symbol in any tags file.'
+    export const openingApiSearch = (url: string) => `Opening API search: ${url}`
     export const parsedTagLine = (tag: any) => `Parsed tag: ${JSON.stringify(tag)}`
     export const parsingTagLine = (line: string) => `Parsing tag line: ${line}`
     export const pickedSuggestion = (suggestion: any) => `Picked: ${JSON.stringify(suggestion)}`
+    export const previewAliasHeading = '## Alias'
+    export const previewFilePath = (path: string) => `File path: \`${path}\``
+    export const previewImportLine = (name: string | undefined, line: string) => name ? `- ${name}: \`${line}\`` : `- \`${line}\``
+    export const previewImportLinesHeading = '## Import lines'
+    export const previewingModuleName = (path: string) => `Previewing module name for path: ${path}`
+    export const previewMatch = (matcher: string, match: string) => `Matched by \`${matcher}\`: \`${match}\``
+    export const previewModuleNameHeading = '## Module name'
+    export const previewNoMatch = (matcher: string) => `Not matched by \`${matcher}\`.`
+    export const previewResult = (result: string) => `Result: \`${result}\``
+    export const previewStep = (step: number, t: any, xs: Array<string>) => `${step}. \`${JSON.stringify(t)}\` → \`${JSON.stringify(xs)}\``
+    export const previewTagsFile = (file: string) => `# \`${file}\``
     export const providingCodeActions = 'Providing code actions...'
     export const ranCommand = (cmd: string) => `Ran “${cmd}”.`
+    export const readingExtendedConfig = (path: string) => `Reading extended configuration from path: ${path}`
     export const readingFallbackConfig = (path: string) => `Reading fallback configuration from path: ${path}`
+    export const readingPreset = (name: string) => `Reading preset: ${name}`
     export const readingWorkspaceSettings = 'Reading configuration from workspace settings'
+    export const refreshingTags = (file: string) => `Refreshing tags file ${file}...`
+    export const refreshingTagsForFiles = (files: Array<string>) => `Refreshing tags for files: ${files.join(', ')}`
     export const registeredCompletionsProvider = 'Registered completions provider.'
     export const registeredDefinitionsProvider = 'Registered definitions provider.'
+    export const registeredDocumentSymbolProvider = 'Registered document symbol provider.'
+    export const registeredHoverProvider = 'Registered hover provider.'
     export const registeredImportsProvider = 'Registered imports provider.'
     export const registeredOnSaveCommand = 'Registered on-save command.'
+    export const registeredReferencesProvider = 'Registered references provider.'
+    export const registeredRenameProvider = 'Registered rename provider.'
+    export const registeredWorkspaceSymbolProvider = 'Registered workspace symbol provider.'
     export const registeringCompletionsProvider = 'Registering completions provider...'
     export const registeringDefinitionsProvider = 'Registering definitions provider...'
+    export const registeringDocumentSymbolProvider = 'Registering document symbol provider...'
+    export const registeringHoverProvider = 'Registering hover provider...'
     export const registeringImportsProvider = 'Registering imports provider...'
     export const registeringOnSaveCommand = 'Registering on-save command...'
+    export const registeringReferencesProvider = 'Registering references provider...'
+    export const registeringRenameProvider = 'Registering rename provider...'
+    export const registeringWorkspaceSymbolProvider = 'Registering workspace symbol provider...'
+    export const reloadingConfig = 'Reloading configuration...'
+    export const renameSymbol = (newName: string) => `Rename to ${newName}`
+    export const renderedAlias = (alias: string) => `Rendered alias: ${alias}`
     export const renderedImportLine = (line?: string) => `Rendered import line: ${line}`
     export const renderedModuleName = (name?: string) => `Rendered module name: ${name}`
     export const renderingImportLine = (tag: any) => `Rendering import line for tag: ${JSON.stringify(tag)}`
+    export const restartingComponent = (component: string, languageId?: string) => languageId ? `Restarting ${component} for language ${languageId}...` : `Restarting ${component}...`
+    export const restartingComponents = (languageId: string) => `Restarting components for language ${languageId}...`
+    export const runningAnnotationsCommands = 'Running annotations commands...'
     export const runningCommand = (cmd: string, cwd?: string) => `Running “${cmd}” in “${cwd}”...`
     export const runningSuggestImports = 'Running suggest imports...'
+    export const scannedWorkspaceForTags = (count: number) => `Scanned ${count} files for tags.`
+    export const scanningWorkspaceForTags = (path: string) => `Scanning workspace to generate tags file ${path}...`
+    export const schemaExpectedOneOf = (property: string, values: Array<string>) => `Expected ${property} to be one of: ${values.join(', ')}.`
+    export const schemaExpectedType = (types: Array<string>, actual: string) => `Expected ${types.filter(type => type !== 'null').join(' or ')}, but found ${actual}.`
+    export const schemaExpectedValue = (values: Array<any>, actual: any) => `Expected one of: ${values.map(value => JSON.stringify(value)).join(', ')}, but found ${JSON.stringify(actual)}.`
+    export const schemaMissingProperty = (property: string) => `Missing required property ${property}.`
+    export const schemaUnknownProperty = (property: string, suggestion?: string) => suggestion ? `Unknown property ${property}. Did you mean ${suggestion}?` : `Unknown property ${property}.`
+    export const searchingTagsIndex = (query: string) => `Searching tags index for: ${query}`
+    export const showingEffectiveConfig = (folder?: string) => `Showing effective configuration for workspace folder: ${folder}`
     export const splittingOutputChannel = (name: string) => `Creating new output channel: ${name}`
     export const startingAlloglot = 'Starting Alloglot...'
     export const startingAnnotations = 'Starting annotations...'
+    export const startingFolder = (name: string) => `Starting components for workspace folder ${name}...`
     export const startingFormatter = 'Starting formatter...'
+    export const startingLanguage = (languageId: string) => `Starting components for language ${languageId}...`
     export const startingLanguageClient = 'Starting language client...'
     export const startingTags = 'Starting tags...'
+    export const stoppingFolder = (name: string) => `Stopping components for workspace folder ${name}...`
+    export const stoppingLanguage = (languageId: string) => `Stopping components for language ${languageId}...`
     export const stoppingLanguageClient = 'Stopping language client...'
+    export const tagNotFoundInFile = (tag: any) => `Could not find tag in file: ${JSON.stringify(tag)}`
     export const tagsStarted = 'Tags started.'
     export const transformationResult = (x: string) => `Result: ${x}`
+    export const unknownPreset = (name: string, names: Array<string>) => `Unknown preset ${name}. Presets: ${names.join(', ')}.`
+    export const updatingGeneratedTags = (path: string) => `Updating generated tags for file ${path}`
+    export const userSettings = 'user settings'
     export const usingConfig = (config: any) => `Using configuration:\n${JSON.stringify(config, null, 2)}`
     export const usingFileMatcher = (matcher: any) => `File matcher: ${matcher}`
+    export const usingSharedLanguageClient = (users: number) => `Using shared language client for ${users} workspace folders.`
     export const workspaceConfigExists = (exists: boolean) => `Configuration exists in settings: ${exists}`
+    export const workspaceSettings = 'workspace settings'
+    export const wroteGeneratedTags = (path: string, count: number) => `Wrote ${count} tags to ${path}.`
   }
 
   export namespace collections {
     const root = `${alloglot.root}.collections` as const
     export const annotations = `${root}.annotations` as const
+    export const config = `${root}.config` as const
   }
 
   export namespace components {
@@ -427,12 +1294,19 @@ export namespace alloglot {
     export const onSaveRunner = 'onsaverunner' as const
     export const tags = 'tags' as const
     export const tagsSource = 'tagssource' as const
+    export const tagsGenerator = 'tagsgenerator' as const
     export const importsProvider = 'importsprovider' as const
+    export const moduleNamePreview = 'modulenamepreview' as const
+    export const effectiveConfig = 'effectiveconfig' as const
   }
 
   export namespace commands {
     const root = `${alloglot.root}.command` as const
     export const apiSearch = `${root}.apisearch` as const
+    export const previewModuleName = `${root}.previewmodulename` as const
+    export const reloadConfig = `${root}.reloadconfig` as const
+    export const runAnnotations = `${root}.runannotations` as const
+    export const showEffectiveConfig = `${root}.showeffectiveconfig` as const
     export const suggestImports = `${root}.suggestimports` as const
   }
 
@@ -446,5 +1320,6 @@ export namespace alloglot {
     export const onSaveCommand = 'onSaveCommand' as const
     export const verboseOutput = 'verboseOutput' as const
     export const mergeConfigs = 'mergeConfigs' as const
+    export const extendsConfigs = 'extends' as const
   }
 }
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode'
+
+import { Config, alloglot } from './config'
+
+/**
+ * Register `Alloglot: Show Effective Configuration`.
+ * The command resolves the configuration of the current document's workspace folder (or asks for a folder),
+ * and shows it beside the editor with each value annotated with the source it came from.
+ */
+export function makeEffectiveConfig(output: vscode.OutputChannel): vscode.Disposable {
+  return vscode.commands.registerCommand(alloglot.commands.showEffectiveConfig, async () => {
+    const folders = vscode.workspace.workspaceFolders || []
+    const document = vscode.window.activeTextEditor?.document
+    const folder =
+      (document && vscode.workspace.getWorkspaceFolder(document.uri))
+      || (folders.length > 1 ? await vscode.window.showWorkspaceFolderPick() : folders[0])
+    if (folders.length > 1 && !folder) return
+
+    output.appendLine(alloglot.ui.showingEffectiveConfig(folder?.name))
+    const { config, sourceOf } = Config.resolve(output, folder)
+    const content = [alloglot.ui.effectiveConfigHeader(folder?.name), ...renderValue(config, [], sourceOf, '', '', ''), ''].join('\n')
+    const preview = await vscode.workspace.openTextDocument({ language: 'jsonc', content })
+    await vscode.window.showTextDocument(preview, vscode.ViewColumn.Beside, true)
+  })
+}
+
+/**
+ * Render `value` as JSON with comments, one leaf value per line, each followed by the source it came from.
+ */
+function renderValue(value: any, path: Config.Path, sourceOf: (path: Config.Path) => string | undefined, indent: string, prefix: string, comma: string): Array<string> {
+  if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+    const isArray = Array.isArray(value)
+    const entries: Array<[string | number, any]> = isArray ? value.map((x: any, i: number) => [i, x]) : Object.entries(value)
+    return [
+      `${indent}${prefix}${isArray ? '[' : '{'}`,
+      ...entries.flatMap(([k, x], i) => renderValue(
+        x,
+        [...path, k],
+        sourceOf,
+        `${indent}  `,
+        isArray ? '' : `${JSON.stringify(k)}: `,
+        i < entries.length - 1 ? ',' : ''
+      )),
+      `${indent}${isArray ? ']' : '}'}${comma}`
+    ]
+  }
+
+  const source = sourceOf(path)
+  return [`${indent}${prefix}${JSON.stringify(value)}${comma}${source ? ` // ${source}` : ''}`]
+}
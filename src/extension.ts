@@ -1,39 +1,70 @@
 import * as vscode from 'vscode'
 
-import { makeActivationCommand } from './activationcommand'
-import { makeAnnotations } from './annotations'
+import { makeRunAnnotations } from './annotations'
 import { makeApiSearch } from './apisearch'
-import { makeClient } from './client'
-import { Config, alloglot } from './config'
-import { makeFormatter } from './formatter'
-import { makeOnSaveRunner } from './onsaverunner'
-import { makeTags } from './tags'
+import { TConfig, alloglot } from './config'
+import { makeEffectiveConfig } from './effectiveconfig'
+import { Folder, IFolder } from './folder'
+import { makeModuleNamePreview } from './modulenamepreview'
+import { makeSuggestImports } from './tags'
 import { HierarchicalOutputChannel } from './utils'
 
 export function activate(context: vscode.ExtensionContext): void {
   const output = HierarchicalOutputChannel.make(alloglot.root)
 
   output.appendLine(alloglot.ui.startingAlloglot)
-  const config = Config.make(output)
-  output.appendLine(alloglot.ui.usingConfig(config))
 
-  const langs = config.languages || []
+  // each workspace folder gets its own configuration and components, keyed by the folder's URI.
+  // a window without folders gets a single set, keyed by the empty string.
+  const folders = new Map<string, IFolder>()
 
-  const verboseOutput = !!config.verboseOutput
-  const grepPath = config.grepPath || 'grep'
+  function addFolder(folder?: vscode.WorkspaceFolder): void {
+    folder && output.appendLine(alloglot.ui.startingFolder(folder.name))
+    folders.set(folder?.uri.toString() || '', Folder.make(folder ? output.local(folder.name) : output, folder))
+  }
 
-  context.subscriptions.push(
-    // Start the activation component if it's configured.
-    makeActivationCommand(output.local(alloglot.components.activateCommand), config.activateCommand, config.revealActivateCommandOutput),
+  function removeFolder(folder: vscode.WorkspaceFolder): void {
+    output.appendLine(alloglot.ui.stoppingFolder(folder.name))
+    folders.get(folder.uri.toString())?.dispose()
+    folders.delete(folder.uri.toString())
+  }
+
+  // documents outside every workspace folder use the first folder's configuration.
+  function configFor(uri: vscode.Uri): TConfig {
+    const folder = vscode.workspace.getWorkspaceFolder(uri)
+    const entry = folders.get(folder?.uri.toString() || '') || folders.values().next().value
+    return entry?.config || {}
+  }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders || []
+  workspaceFolders.length > 0 ? workspaceFolders.forEach(addFolder) : addFolder(undefined)
 
+  context.subscriptions.push(
     // Start the API search component because VSCode can't dynamically create commands.
-    makeApiSearch(output.local(alloglot.components.apiSearch), config),
-
-    // Start all the language-specific components.
-    ...langs.map(lang => makeOnSaveRunner(output.local(alloglot.components.onSaveRunner).local(lang.languageId), lang)),
-    ...langs.map(lang => makeAnnotations(output.local(alloglot.components.annotations).local(lang.languageId), lang)),
-    ...langs.map(lang => makeFormatter(output.local(alloglot.components.formatter).local(lang.languageId), lang, verboseOutput)),
-    ...langs.map(lang => makeClient(output.local(alloglot.components.client).local(lang.languageId), lang)),
-    ...langs.map(lang => makeTags(output.local(alloglot.components.tags).local(lang.languageId), grepPath, lang, verboseOutput))
+    makeApiSearch(output.local(alloglot.components.apiSearch), configFor),
+
+    // Start the module name preview component for the same reason.
+    makeModuleNamePreview(output.local(alloglot.components.moduleNamePreview), configFor),
+
+    // Start the suggest imports component for the same reason.
+    makeSuggestImports(output.local(alloglot.components.importsProvider)),
+
+    // Start the run annotations component for the same reason.
+    makeRunAnnotations(output.local(alloglot.components.annotations)),
+
+    vscode.commands.registerCommand(alloglot.commands.reloadConfig, () => folders.forEach(folder => folder.reload())),
+
+    makeEffectiveConfig(output.local(alloglot.components.effectiveConfig)),
+
+    vscode.workspace.onDidChangeWorkspaceFolders(event => {
+      event.removed.forEach(removeFolder)
+      if (event.added.length > 0) {
+        folders.get('')?.dispose()
+        folders.delete('')
+        event.added.forEach(addFolder)
+      }
+    }),
+
+    { dispose: () => folders.forEach(folder => folder.dispose()) }
   )
 }
@@ -0,0 +1,208 @@
+import { basename } from 'path'
+import * as vscode from 'vscode'
+
+import { makeActivationCommand } from './activationcommand'
+import { makeAnnotations } from './annotations'
+import { makeClient } from './client'
+import { Config, LanguageConfig, TConfig, alloglot } from './config'
+import { makeFormatter } from './formatter'
+import { makeOnSaveRunner } from './onsaverunner'
+import { makeTags } from './tags'
+import { makeTagsGenerator } from './tagsgenerator'
+import { Disposal, IDisposal, IHierarchicalOutputChannel } from './utils'
+
+export interface IFolder extends vscode.Disposable {
+  /**
+   * The folder's current configuration.
+   */
+  readonly config: TConfig
+
+  /**
+   * Re-read the folder's configuration, and restart only the components whose configuration changed.
+   */
+  reload(): void
+}
+
+export namespace Folder {
+  /**
+   * Start the components for one workspace folder, or for a window without folders if `folder` is undefined.
+   * The folder reloads itself when its settings, its `.vscode/alloglot.json` or the files they extend change.
+   */
+  export function make(output: IHierarchicalOutputChannel, folder?: vscode.WorkspaceFolder): IFolder {
+    const disposal = Disposal.make()
+    const diagnostics = vscode.languages.createDiagnosticCollection(folder ? `${alloglot.collections.config}.${folder.name}` : alloglot.collections.config)
+    disposal.insert(diagnostics)
+
+    // configuration files read through `extends`, which can change as the configuration changes.
+    let extendedWatchers = Disposal.make()
+    disposal.insert({ dispose: () => extendedWatchers.dispose() })
+
+    let config = read()
+    let activation = startActivation()
+    const languages = new Map<string, Language>()
+    config.languages?.forEach(lang => languages.set(lang.languageId, startLanguage(lang)))
+
+    function read(): TConfig {
+      const resolved = Config.resolve(output, folder)
+      diagnostics.clear()
+      diagnostics.set(resolved.diagnostics)
+      extendedWatchers.dispose()
+      extendedWatchers = watchFiles(resolved.diagnostics.map(([uri]) => uri))
+      output.appendLine(alloglot.ui.usingConfig(resolved.config))
+      return resolved.config
+    }
+
+    function startActivation(): vscode.Disposable {
+      return makeActivationCommand(output.local(alloglot.components.activateCommand), config.activateCommand, config.revealActivateCommandOutput, folder)
+    }
+
+    function startClient(lang: LanguageConfig): vscode.Disposable {
+      return makeClient(output.local(alloglot.components.client).local(lang.languageId), lang, folder)
+    }
+
+    function startComponents(lang: LanguageConfig): vscode.Disposable {
+      const verboseOutput = !!config.verboseOutput
+      const grepPath = config.grepPath || 'grep'
+      return vscode.Disposable.from(
+        makeOnSaveRunner(output.local(alloglot.components.onSaveRunner).local(lang.languageId), lang, folder),
+        makeAnnotations(output.local(alloglot.components.annotations).local(lang.languageId), lang, folder),
+        makeFormatter(output.local(alloglot.components.formatter).local(lang.languageId), lang, verboseOutput, folder),
+        makeTagsGenerator(output.local(alloglot.components.tagsGenerator).local(lang.languageId), lang, folder),
+        makeTags(output.local(alloglot.components.tags).local(lang.languageId), grepPath, lang, verboseOutput, folder)
+      )
+    }
+
+    function startLanguage(lang: LanguageConfig): Language {
+      return { config: lang, client: startClient(lang), components: startComponents(lang) }
+    }
+
+    function stopLanguage(language: Language): void {
+      language.client.dispose()
+      language.components.dispose()
+    }
+
+    function reload(): void {
+      output.appendLine(alloglot.ui.reloadingConfig)
+      const oldConfig = config
+      config = read()
+
+      if (oldConfig.activateCommand !== config.activateCommand || oldConfig.revealActivateCommandOutput !== config.revealActivateCommandOutput) {
+        output.appendLine(alloglot.ui.restartingComponent(alloglot.components.activateCommand))
+        activation.dispose()
+        activation = startActivation()
+      }
+
+      // formatters and tags take these from the top level of the config.
+      const sharedChanged = oldConfig.verboseOutput !== config.verboseOutput || oldConfig.grepPath !== config.grepPath
+
+      const langs = new Map((config.languages || []).map(lang => [lang.languageId, lang]))
+
+      languages.forEach((language, languageId) => {
+        if (langs.has(languageId)) return
+        output.appendLine(alloglot.ui.stoppingLanguage(languageId))
+        stopLanguage(language)
+        languages.delete(languageId)
+      })
+
+      langs.forEach((lang, languageId) => {
+        const language = languages.get(languageId)
+        if (!language) {
+          output.appendLine(alloglot.ui.startingLanguage(languageId))
+          languages.set(languageId, startLanguage(lang))
+          return
+        }
+
+        if (clientChanged(language.config, lang)) {
+          output.appendLine(alloglot.ui.restartingComponent(alloglot.components.client, languageId))
+          language.client.dispose()
+          language.client = startClient(lang)
+        }
+
+        if (sharedChanged || componentsChanged(language.config, lang)) {
+          output.appendLine(alloglot.ui.restartingComponents(languageId))
+          language.components.dispose()
+          language.components = startComponents(lang)
+        }
+
+        language.config = lang
+      })
+    }
+
+    // a single edit can fire several events, e.g. saving `settings.json` while `.vscode/alloglot.json` is also saved.
+    let reloadTimer: NodeJS.Timeout | undefined
+    function scheduleReload(): void {
+      reloadTimer && clearTimeout(reloadTimer)
+      reloadTimer = setTimeout(() => {
+        reloadTimer = undefined
+        reload()
+      }, reloadDelayMs)
+    }
+
+    disposal.insert(vscode.workspace.onDidChangeConfiguration(event => {
+      event.affectsConfiguration(alloglot.config.root, folder) && scheduleReload()
+    }))
+
+    function watchFiles(uris: Array<vscode.Uri>): IDisposal {
+      const watchers = Disposal.make()
+      uris.forEach(uri => {
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.joinPath(uri, '..'), basename(uri.path)))
+        watchers.insert(watcher)
+        watchers.insert(watcher.onDidChange(scheduleReload))
+        watchers.insert(watcher.onDidDelete(scheduleReload))
+      })
+      return watchers
+    }
+
+    if (folder) {
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, alloglot.config.fallbackPath))
+      disposal.insert(watcher)
+      disposal.insert(watcher.onDidCreate(scheduleReload))
+      disposal.insert(watcher.onDidChange(scheduleReload))
+      disposal.insert(watcher.onDidDelete(scheduleReload))
+    }
+
+    disposal.insert({
+      dispose: () => {
+        reloadTimer && clearTimeout(reloadTimer)
+        activation.dispose()
+        languages.forEach(stopLanguage)
+        languages.clear()
+      }
+    })
+
+    return {
+      get config() {
+        return config
+      },
+
+      reload() {
+        reloadTimer && clearTimeout(reloadTimer)
+        reloadTimer = undefined
+        reload()
+      },
+
+      dispose() {
+        disposal.dispose()
+      }
+    }
+  }
+
+  type Language = {
+    config: LanguageConfig
+    client: vscode.Disposable
+    components: vscode.Disposable
+  }
+
+  const reloadDelayMs = 250
+
+  // the language client only depends on these, so editing anything else doesn't restart the server.
+  function clientChanged(left: LanguageConfig, right: LanguageConfig): boolean {
+    return left.serverCommand !== right.serverCommand || !!left.sharedServer !== !!right.sharedServer
+  }
+
+  function componentsChanged(left: LanguageConfig, right: LanguageConfig): boolean {
+    const { serverCommand: _l, sharedServer: _ls, ...l } = left
+    const { serverCommand: _r, sharedServer: _rs, ...r } = right
+    return JSON.stringify(l) !== JSON.stringify(r)
+  }
+}
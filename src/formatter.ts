@@ -25,26 +25,29 @@ Portions of this software are derived from [vscode-custom-local-formatters](http
 */
 import * as vscode from 'vscode'
 
-import { LanguageConfig, alloglot } from './config'
-import { AsyncProcess, Disposal } from './utils'
+import { Config, LanguageConfig, alloglot } from './config'
+import { AsyncProcess, Disposal, folderSelector } from './utils'
 
 /**
  * Register a custom document formatter for a language.
  */
-export function makeFormatter(output: vscode.OutputChannel, config: LanguageConfig, verboseOutput: boolean): vscode.Disposable {
-  const { languageId, formatCommand } = config
-  if (!languageId || !formatCommand) return vscode.Disposable.from()
+export function makeFormatter(output: vscode.OutputChannel, config: LanguageConfig, verboseOutput: boolean, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const { languageId, formatCommand, overrides } = config
+  if (!languageId || !(formatCommand || overrides?.some(override => override.formatCommand))) return vscode.Disposable.from()
 
   output.appendLine(alloglot.ui.startingFormatter)
 
   const disposal = Disposal.make()
 
   const formatter = vscode.languages.registerDocumentFormattingEditProvider(
-    languageId,
+    folderSelector(languageId, folder),
     {
       provideDocumentFormattingEdits: document => {
+        const formatCommand = Config.forFile(config, document.uri, folder).formatCommand
+        if (!formatCommand) return []
+
         const command = formatCommand.replace('${file}', document.fileName)
-        const basedir = vscode.workspace.workspaceFolders?.[0].uri
+        const basedir = folder?.uri
         const stdin = document.getText()
         const entireDocument = new vscode.Range(
           document.lineAt(0).range.start,
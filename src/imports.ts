@@ -0,0 +1,384 @@
+import * as vscode from 'vscode'
+
+import { ImportLinePattern, ImportsProviderConfig, StringTransformation, alloglot } from './config'
+import { TagsSource } from './tagssource'
+import { escapeRegExp } from './utils'
+
+export interface IImports {
+  renderModuleName(tag: TagsSource.Tag): string | undefined
+  renderImportLine(tag: TagsSource.Tag, pattern?: ImportLinePattern, alias?: string): { renderedImport?: string, renderedModuleName?: string }
+  findImportPosition(document: vscode.TextDocument, moduleName?: string): vscode.Position
+  findQualifier(document: vscode.TextDocument, wordRange: vscode.Range): string | undefined
+  isImported(document: vscode.TextDocument): (moduleName: string) => boolean
+  importEdit(document: vscode.TextDocument, tag: TagsSource.Tag, pattern?: ImportLinePattern, alias?: string): ImportEdit | undefined
+  importEdits(document: vscode.TextDocument, tags: Array<TagsSource.Tag>, qualifier?: string): Array<ImportEdit>
+}
+
+export type ImportEdit = {
+  moduleName: string
+  pattern?: ImportLinePattern
+  edit: vscode.TextEdit
+}
+
+export namespace Imports {
+  /**
+   * Create an {@link IImports imports renderer} that turns tags into import lines using an {@link ImportsProviderConfig}.
+   * Method `renderModuleName(tag)` applies `renderModuleName` to the part of the tag's file path matched by `matchFromFilepath`.
+   * Method `renderImportLine(tag, pattern, alias)` fills in an import line pattern with the rendered module name, alias, and the tag's symbol.
+   * Method `findImportPosition(document, moduleName)` finds where a new import line should be inserted.
+   * Method `findQualifier(document, wordRange)` finds the qualifier of a qualified usage, e.g. `Map` in `Map.insert`.
+   * Method `isImported(document)` returns a predicate that tells whether a module is already imported in the document.
+   * Method `importEdit(document, tag, pattern, alias)` computes the edit that imports a tag, if it isn't imported already.
+   * Method `importEdits(document, tags, qualifier)` computes the edits that import some tags with each applicable pattern.
+   */
+  export function make(config: ImportsProviderConfig, output?: vscode.OutputChannel): IImports {
+    const { matchFromFilepath, importLinePattern, renderModuleName, renderAlias, importOrder } = config
+    const symbolSeparator = config.symbolSeparator || ', '
+    const qualifierSeparator = config.qualifierSeparator || '.'
+
+    // the unnamed `importLinePattern` comes first, and is the one used when completing.
+    const patterns: Array<ImportLinePattern | undefined> = [undefined, ...config.importLinePatterns || []]
+    const patternOf = (pattern?: ImportLinePattern) => pattern?.pattern || importLinePattern
+
+    function renderModuleNameForTag(tag: TagsSource.Tag): string | undefined {
+      const fileMatcher = new RegExp(matchFromFilepath)
+      output?.appendLine(alloglot.ui.usingFileMatcher(fileMatcher))
+
+      const match = tag.file.match(fileMatcher)
+      output?.appendLine(alloglot.ui.fileMatcherResult(match))
+
+      const renderedModuleName = match && match.length > 0
+        ? applyStringTransformations(renderModuleName, match[0], output)
+        : undefined
+      output?.appendLine(alloglot.ui.renderedModuleName(renderedModuleName))
+      return renderedModuleName
+    }
+
+    function renderAliasForModule(moduleName: string): string {
+      const renderedAlias = renderAlias ? applyStringTransformations(renderAlias, moduleName, output) : moduleName
+      output?.appendLine(alloglot.ui.renderedAlias(renderedAlias))
+      return renderedAlias
+    }
+
+    function renderImportLine(tag: TagsSource.Tag, pattern?: ImportLinePattern, alias?: string): { renderedImport?: string, renderedModuleName?: string } {
+      output?.appendLine(alloglot.ui.renderingImportLine(tag))
+
+      const renderedModuleName = renderModuleNameForTag(tag)
+
+      const renderedImport = renderedModuleName
+        ? patternOf(pattern)
+          .replace('${module}', renderedModuleName)
+          .replace('${alias}', () => alias || renderAliasForModule(renderedModuleName))
+          .replace('${symbol}', tag.symbol) + '\n'
+        : undefined
+      output?.appendLine(alloglot.ui.renderedImportLine(renderedImport))
+
+      return { renderedImport, renderedModuleName }
+    }
+
+    // loose on purpose: placeholders match anything, and the patterns' punctuation is left unescaped.
+    const importMatchers = patterns.map(pattern => new RegExp(patternOf(pattern)
+      .replace('${module}', '(.*)')
+      .replace('${alias}', '(.*)')
+      .replace('${symbol}', '(.*)')
+    ))
+    const isImportLine = (line: string) => importMatchers.some(matcher => line.match(matcher))
+
+    const importLineParsers = patterns.map(pattern => makeImportLineParser(pattern, patternOf(pattern)))
+
+    // a line could fit more than one pattern, e.g. `import ${module}` fits any import, so try the most specific patterns first.
+    const literalLength = (pattern?: ImportLinePattern) => patternOf(pattern).replace(/\$\{(module|alias|symbol)\}/g, '').length
+    const parsersBySpecificity = patterns
+      .map((pattern, i) => ({ parse: importLineParsers[i], specificity: literalLength(pattern) }))
+      .sort((a, b) => b.specificity - a.specificity)
+      .map(x => x.parse)
+
+    function parseImports(document: vscode.TextDocument): Array<ParsedImport> {
+      const imports: Array<ParsedImport> = []
+      for (let line = 0; line < document.lineCount; line++) {
+        const text = document.lineAt(line).text
+        if (!isImportLine(text)) continue
+        const parsed = parsersBySpecificity.map(parse => parse(text)).find(x => x.moduleName) || {}
+        imports.push({ line, ...parsed })
+      }
+      return imports
+    }
+
+    const groups = (importOrder?.groups || []).map(group => new RegExp(group))
+
+    // imports sort by group first, then by module name.
+    function compareModules(a: string, b: string): number {
+      const groupOf = (moduleName: string) => {
+        const i = groups.findIndex(group => group.test(moduleName))
+        return i < 0 ? groups.length : i
+      }
+      const byGroup = groupOf(a) - groupOf(b)
+      if (byGroup !== 0) return byGroup
+      const [x, y] = importOrder?.ignoreCase ? [a.toLowerCase(), b.toLowerCase()] : [a, b]
+      return x < y ? -1 : x > y ? 1 : 0
+    }
+
+    function findImportPosition(document: vscode.TextDocument, moduleName?: string): vscode.Position {
+      output?.appendLine(alloglot.ui.findingImportPosition)
+
+      if (importOrder && moduleName) {
+        const existing = parseImports(document).filter(x => x.moduleName)
+        if (existing.length > 0) {
+          const next = existing.find(x => compareModules(moduleName, x.moduleName!) < 0)
+          const line = next ? next.line : existing[existing.length - 1].line + 1
+          output?.appendLine(alloglot.ui.foundImportPosition(line))
+          return new vscode.Position(line, 0)
+        }
+      }
+
+      const fullText = document.getText().split('\n')
+      const firstImportLine = fullText.findIndex(isImportLine)
+      if (firstImportLine >= 0) {
+        output?.appendLine(alloglot.ui.foundImportPosition(firstImportLine))
+        return new vscode.Position(firstImportLine, 0)
+      }
+      const firstBlankLine = fullText.findIndex(line => line.match(/^\s*$/))
+      if (firstBlankLine >= 0) {
+        output?.appendLine(alloglot.ui.foundBlankLine(firstBlankLine))
+        return new vscode.Position(firstBlankLine, 0)
+      }
+      output?.appendLine(alloglot.ui.noBlankLineFound)
+      return new vscode.Position(0, 0)
+    }
+
+    // qualifiers can themselves be qualified, as in `Data.Map.insert`.
+    const qualifierPart = `[\\p{L}\\p{N}_']+`
+    const separator = escapeRegExp(qualifierSeparator)
+    const qualifierMatcher = new RegExp(`(${qualifierPart}(?:${separator}${qualifierPart})*)${separator}$`, 'u')
+
+    function findQualifier(document: vscode.TextDocument, wordRange: vscode.Range): string | undefined {
+      const before = document.lineAt(wordRange.start.line).text.slice(0, wordRange.start.character)
+      const qualifier = before.match(qualifierMatcher)?.[1]
+      qualifier && output?.appendLine(alloglot.ui.foundQualifier(qualifier))
+      return qualifier
+    }
+
+    function isListed(symbol: string, symbols: string): boolean {
+      return symbols
+        .split(symbolSeparator.trim() || symbolSeparator)
+        .map(entry => entry.trim())
+        // `Foo(..)` exports `Foo`, and operators are listed in parentheses.
+        .some(entry => entry === symbol || entry === `(${symbol})` || entry.replace(/\(.*\)$/, '').trim() === symbol)
+    }
+
+    function importEdit(document: vscode.TextDocument, tag: TagsSource.Tag, pattern?: ImportLinePattern, alias?: string): ImportEdit | undefined {
+      const { renderedImport, renderedModuleName } = renderImportLine(tag, pattern, alias)
+      if (!renderedImport || !renderedModuleName) return undefined
+
+      const wanted = importLineParsers[patterns.indexOf(pattern)](renderedImport.trim())
+      const existing = parseImports(document).filter(x => x.moduleName === renderedModuleName)
+
+      // an unqualified symbol is in scope if its module is imported whole, or if the symbol is listed.
+      const alreadyImported = existing.some(x => {
+        if (x.pattern === pattern && x.alias === wanted.alias && !x.symbols) return true
+        if (isQualified(pattern) || isQualified(x.pattern)) return false
+        return x.symbols ? isListed(tag.symbol, x.symbols.text) : true
+      })
+      if (alreadyImported) {
+        output?.appendLine(alloglot.ui.alreadyImported(tag.symbol, renderedModuleName))
+        return undefined
+      }
+
+      const extendable = existing.find(x => x.pattern === pattern && x.alias === wanted.alias && x.symbols)
+      if (extendable && extendable.symbols) {
+        output?.appendLine(alloglot.ui.extendingImport(extendable.line))
+        const { text, start } = extendable.symbols
+        const trimmed = text.trimEnd()
+        const position = new vscode.Position(extendable.line, start + trimmed.length)
+        const insertion = trimmed.trim() ? `${symbolSeparator}${tag.symbol}` : tag.symbol
+        return { moduleName: renderedModuleName, pattern, edit: vscode.TextEdit.insert(position, insertion) }
+      }
+
+      const position = findImportPosition(document, renderedModuleName)
+      return { moduleName: renderedModuleName, pattern, edit: vscode.TextEdit.insert(position, renderedImport) }
+    }
+
+    function importEdits(document: vscode.TextDocument, tags: Array<TagsSource.Tag>, qualifier?: string): Array<ImportEdit> {
+      if (!qualifier) {
+        return patterns
+          .filter(pattern => !isQualified(pattern))
+          .flatMap(pattern => tags.map(tag => importEdit(document, tag, pattern)))
+          .filter(x => x) as Array<ImportEdit>
+      }
+
+      // prefer modules whose alias (or name) is the qualifier, and fall back to aliasing any module to the qualifier.
+      const matching = tags.filter(tag => {
+        const moduleName = renderModuleNameForTag(tag)
+        return !!moduleName && (moduleName === qualifier || renderAliasForModule(moduleName) === qualifier)
+      })
+      return patterns
+        .filter(isQualified)
+        .flatMap(pattern => (matching.length > 0 ? matching : tags)
+          // a qualified pattern without `${alias}` qualifies by the module name itself.
+          .filter(tag => patternOf(pattern).includes('${alias}') || renderModuleNameForTag(tag) === qualifier)
+          .map(tag => importEdit(document, tag, pattern, qualifier))
+        )
+        .filter(x => x) as Array<ImportEdit>
+    }
+
+    return {
+      renderModuleName: renderModuleNameForTag,
+
+      renderImportLine,
+
+      findImportPosition,
+
+      findQualifier,
+
+      isImported(document) {
+        const importLines = document.getText().split('\n').filter(isImportLine)
+        const cache = new Map<string, boolean>()
+        return moduleName => {
+          if (!cache.has(moduleName)) {
+            const mentioned = new RegExp(`(^|[\\s"'(])${escapeRegExp(moduleName)}($|[\\s"'(;])`)
+            cache.set(moduleName, importLines.some(line => mentioned.test(line)))
+          }
+          return cache.get(moduleName)!
+        }
+      },
+
+      importEdit,
+
+      importEdits
+    }
+  }
+
+  /**
+   * Apply a pipeline of {@link StringTransformation string transformations} to `x`.
+   * The pipeline works on an array of segments, starting with `[x]`.
+   * Whatever segments are left at the end are concatenated without a separator.
+   * `onStep` is called with each transformation and the segments it produced,
+   * including the transformations nested in an `if`, which are called before the `if` itself.
+   */
+  export function applyStringTransformations(
+    cmds: Array<StringTransformation>,
+    x: string,
+    output?: vscode.OutputChannel,
+    onStep?: (cmd: StringTransformation, xs: Array<string>) => void
+  ): string {
+    output?.appendLine(alloglot.ui.applyingTransformations(cmds, x))
+    const result = applyPipeline(cmds, [x], output, onStep).join('')
+    output?.appendLine(alloglot.ui.transformationResult(result))
+    return result
+  }
+
+  function applyPipeline(
+    cmds: Array<StringTransformation>,
+    xs: Array<string>,
+    output?: vscode.OutputChannel,
+    onStep?: (cmd: StringTransformation, xs: Array<string>) => void
+  ): Array<string> {
+    let buffer = xs
+    cmds.forEach(cmd => {
+      buffer = applyStringTransformation(cmd, buffer, output, onStep)
+      onStep && onStep(cmd, buffer)
+    })
+    return buffer
+  }
+
+  function applyStringTransformation(
+    cmd: StringTransformation,
+    xs: Array<string>,
+    output?: vscode.OutputChannel,
+    onStep?: (cmd: StringTransformation, xs: Array<string>) => void
+  ): Array<string> {
+    output?.appendLine(alloglot.ui.applyingTransformation(cmd, xs))
+    switch (cmd.tag) {
+      case 'replace':
+        return xs.map(x => x.replace(new RegExp(cmd.from, 'g'), cmd.to))
+      case 'split':
+        return xs.flatMap(x => x.split(cmd.on))
+      case 'join':
+        return [xs.join(cmd.with)]
+      case 'toUpper':
+        return xs.map(x => x.toUpperCase())
+      case 'toLower':
+        return xs.map(x => x.toLowerCase())
+      case 'capitalize':
+        return xs.map(capitalize)
+      case 'capture': {
+        const matcher = new RegExp(cmd.pattern)
+        const group = cmd.group ?? 1
+        return xs.map(x => {
+          const match = x.match(matcher)
+          const captured = typeof group === 'string' ? match?.groups?.[group] : match?.[group]
+          return captured ?? x
+        })
+      }
+      case 'stripPrefix':
+        return xs.map(x => x.startsWith(cmd.prefix) ? x.slice(cmd.prefix.length) : x)
+      case 'stripSuffix':
+        return xs.map(x => cmd.suffix && x.endsWith(cmd.suffix) ? x.slice(0, -cmd.suffix.length) : x)
+      case 'drop':
+        return cmd.count >= 0 ? xs.slice(cmd.count) : xs.slice(0, cmd.count)
+      case 'take':
+        return cmd.count >= 0 ? xs.slice(0, cmd.count) : xs.slice(cmd.count)
+      case 'camelCase':
+        return xs.map(x => splitWords(x).map((w, i) => i === 0 ? w.toLowerCase() : capitalize(w.toLowerCase())).join(''))
+      case 'snakeCase':
+        return xs.map(x => splitWords(x).map(w => w.toLowerCase()).join('_'))
+      case 'kebabCase':
+        return xs.map(x => splitWords(x).map(w => w.toLowerCase()).join('-'))
+      case 'if': {
+        const matcher = new RegExp(cmd.matches)
+        return xs.flatMap(x => applyPipeline(matcher.test(x) ? cmd.then : cmd.else || [], [x], output, onStep))
+      }
+    }
+  }
+
+  function capitalize(x: string): string {
+    return x.charAt(0).toUpperCase() + x.slice(1)
+  }
+
+  // words are separated by whitespace, `_` or `-`, or start at a case change, as in `fooBar` or `HTTPServer`.
+  function splitWords(x: string): Array<string> {
+    return x
+      .split(/[\s_-]+|(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u)
+      .filter(w => w)
+  }
+
+  type ParsedImport = {
+    line: number
+    pattern?: ImportLinePattern
+    moduleName?: string
+    alias?: string
+    symbols?: { text: string, start: number }
+  }
+
+  function isQualified(pattern?: ImportLinePattern): boolean {
+    if (!pattern) return false
+    return pattern.qualified ?? pattern.pattern.includes('${alias}')
+  }
+
+  /**
+   * Make a strict parser for lines rendered from `source`.
+   * The parser recovers the module name, the alias, and the position of the symbol list, if the pattern has them.
+   * Lines that don't fit the pattern exactly parse to an empty result.
+   */
+  function makeImportLineParser(pattern: ImportLinePattern | undefined, source: string): (line: string) => Omit<ParsedImport, 'line'> {
+    const matcherSource = source
+      .split(/(\$\{module\}|\$\{alias\}|\$\{symbol\})/)
+      .map(part => {
+        if (part === '${module}') return '(?<module>.+?)'
+        if (part === '${alias}') return '(?<alias>.+?)'
+        if (part === '${symbol}') return '(?<symbols>.*?)'
+        return escapeRegExp(part).replace(/\s+/g, '\\s+')
+      })
+      .join('')
+    const matcher = new RegExp(`^\\s*${matcherSource}\\s*$`, 'd')
+
+    return line => {
+      const match = matcher.exec(line)
+      if (!match?.groups) return {}
+      const { module: moduleName, alias } = match.groups
+      const symbolsIndices = match.indices?.groups?.symbols
+      const symbols = symbolsIndices && { text: match.groups.symbols, start: symbolsIndices[0] }
+      return { pattern, moduleName, alias, symbols }
+    }
+  }
+}
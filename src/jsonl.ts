@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs'
+import { StringDecoder } from 'string_decoder'
+
+export interface IJsonlReader {
+  /**
+   * Read the records appended to the file since the last read.
+   * If the file was truncated, replaced or rewritten since then, it's read from the start, and `reset` is true.
+   * Reads are queued, so each record is read once.
+   */
+  read(): Promise<{ reset: boolean, records: Array<any> }>
+
+  /**
+   * Forget what has been read, so that the next read starts from the start of the file, and `reset` is true.
+   * Reads already queued aren't affected.
+   */
+  reset(): void
+}
+
+export namespace JsonlReader {
+  /**
+   * Create a {@link IJsonlReader reader} for a file of newline-separated JSON records that is written incrementally, e.g. by a compiler that is still running.
+   * Blank lines are skipped. A last line without a newline is held until the rest of it is written, unless it's already a whole record.
+   * Malformed records are passed to `report` with their 1-based line number, and skipped.
+   * The file is read in chunks, yielding to the event loop in between, so large files don't block the extension host.
+   */
+  export function make(path: string, report: (line: number, err: any) => void): IJsonlReader {
+    let state = initialState()
+    let forgotten = false
+    let reading: Promise<unknown> = Promise.resolve()
+
+    async function readMore(): Promise<{ reset: boolean, records: Array<any> }> {
+      const handle = await fs.open(path, 'r')
+      try {
+        const stat = await handle.stat()
+        const reset = forgotten || state.offset > 0 && (stat.ino !== state.ino || stat.size < state.offset || rewrittenInPlace(stat, state) || !await sameTail(handle, state))
+        if (reset || state.offset === 0) state = { ...initialState(), ino: stat.ino }
+        state.mtimeMs = stat.mtimeMs
+        forgotten = false
+
+        const records: Array<any> = []
+        const buffer = Buffer.alloc(chunkSize)
+        while (state.offset < stat.size) {
+          const { bytesRead } = await handle.read(buffer, 0, Math.min(chunkSize, stat.size - state.offset), state.offset)
+          if (bytesRead === 0) break
+          const chunk = buffer.subarray(0, bytesRead)
+          state.tail = Buffer.concat([state.tail, chunk]).subarray(-tailSize)
+          state.offset += bytesRead
+
+          const lines = (state.pending + state.decoder.write(chunk)).split('\n')
+          state.pending = lines.pop() || ''
+          lines.forEach(line => parseLine(line, ++state.line, records))
+          await yieldToEventLoop()
+        }
+
+        // a writer might never end the last record with a newline.
+        if (state.pending.trim()) {
+          try {
+            records.push(JSON.parse(state.pending))
+            state.pending = ''
+          } catch {
+            // most likely the rest of the line hasn't been written yet.
+          }
+        }
+
+        return { reset, records }
+      } finally {
+        await handle.close()
+      }
+    }
+
+    function parseLine(line: string, lineNumber: number, records: Array<any>): void {
+      if (!line.trim()) return
+      try {
+        records.push(JSON.parse(line))
+      } catch (err) {
+        report(lineNumber, err)
+      }
+    }
+
+    return {
+      read() {
+        const result = reading.then(readMore)
+        reading = result.catch(() => undefined)
+        return result
+      },
+
+      reset() {
+        reading = reading.then(() => {
+          state = initialState()
+          forgotten = true
+        })
+      }
+    }
+  }
+
+  /**
+   * Parse newline-separated JSON records all at once, skipping blank lines.
+   * Malformed records are passed to `report` with their 1-based line number, and skipped.
+   */
+  export function parse(text: string, report: (line: number, err: any) => void): Array<any> {
+    const records: Array<any> = []
+    text.split('\n').forEach((line, i) => {
+      if (!line.trim()) return
+      try {
+        records.push(JSON.parse(line))
+      } catch (err) {
+        report(i + 1, err)
+      }
+    })
+    return records
+  }
+
+  type State = {
+    ino?: number
+    mtimeMs?: number
+    offset: number
+    line: number
+    pending: string
+    decoder: StringDecoder
+    // the last bytes read, to tell an appended file from one that was rewritten to at least the same length.
+    tail: Buffer
+  }
+
+  function initialState(): State {
+    return { offset: 0, line: 0, pending: '', decoder: new StringDecoder('utf-8'), tail: Buffer.alloc(0) }
+  }
+
+  // a file that was written to without growing was rewritten, e.g. with the same records as before.
+  function rewrittenInPlace(stat: { size: number, mtimeMs: number }, state: State): boolean {
+    return stat.size <= state.offset && stat.mtimeMs !== state.mtimeMs
+  }
+
+  async function sameTail(handle: fs.FileHandle, state: State): Promise<boolean> {
+    const buffer = Buffer.alloc(state.tail.length)
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, state.offset - state.tail.length)
+    return bytesRead === buffer.length && buffer.equals(state.tail)
+  }
+
+  function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve))
+  }
+
+  const chunkSize = 1 << 20
+  const tailSize = 64
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode'
+
+import { Config, ImportsProviderConfig, StringTransformation, TConfig, alloglot } from './config'
+import { Imports } from './imports'
+
+/**
+ * Register `Alloglot: Preview Module Name`.
+ * The command runs the imports providers configured for the current file's language on the file's path,
+ * and shows each intermediate step of the module name and alias pipelines beside the editor.
+ */
+export function makeModuleNamePreview(output: vscode.OutputChannel, configFor: (uri: vscode.Uri) => TConfig): vscode.Disposable {
+  return vscode.commands.registerTextEditorCommand(
+    alloglot.commands.previewModuleName,
+    editor => {
+      const { document } = editor
+      const path = vscode.workspace.asRelativePath(document.uri, false)
+      output.appendLine(alloglot.ui.previewingModuleName(path))
+
+      const folder = vscode.workspace.getWorkspaceFolder(document.uri)
+      const tags = (configFor(document.uri).languages || [])
+        .filter(lang => lang.languageId === document.languageId)
+        .flatMap(lang => Config.forFile(lang, document.uri, folder).tags || [])
+        .filter(tag => tag.importsProvider)
+
+      if (tags.length === 0) {
+        vscode.window.showInformationMessage(alloglot.ui.noImportsProvider(document.languageId))
+        return
+      }
+
+      const content = tags.flatMap(tag => previewImportsProvider(tag.file, tag.importsProvider!, path)).join('\n')
+      vscode.workspace.openTextDocument({ language: 'markdown', content })
+        .then(preview => vscode.window.showTextDocument(preview, vscode.ViewColumn.Beside, true))
+    }
+  )
+}
+
+function previewImportsProvider(tagsFile: string, config: ImportsProviderConfig, path: string): Array<string> {
+  const lines: Array<string> = [alloglot.ui.previewTagsFile(tagsFile), '', alloglot.ui.previewFilePath(path)]
+
+  const match = path.match(new RegExp(config.matchFromFilepath))
+  if (!match || match.length === 0) {
+    lines.push(alloglot.ui.previewNoMatch(config.matchFromFilepath), '')
+    return lines
+  }
+  lines.push(alloglot.ui.previewMatch(config.matchFromFilepath, match[0]), '')
+
+  const previewPipeline = (heading: string, cmds: Array<StringTransformation>, x: string): string => {
+    lines.push(heading, '')
+    let step = 0
+    const result = Imports.applyStringTransformations(cmds, x, undefined, (cmd, xs) => {
+      lines.push(alloglot.ui.previewStep(++step, cmd, xs))
+    })
+    lines.push('', alloglot.ui.previewResult(result), '')
+    return result
+  }
+
+  const moduleName = previewPipeline(alloglot.ui.previewModuleNameHeading, config.renderModuleName, match[0])
+  const alias = config.renderAlias
+    ? previewPipeline(alloglot.ui.previewAliasHeading, config.renderAlias, moduleName)
+    : undefined
+
+  const render = (pattern: string) => pattern
+    .replace('${module}', () => moduleName)
+    .replace('${alias}', () => alias || moduleName)
+  lines.push(alloglot.ui.previewImportLinesHeading, '')
+  lines.push(alloglot.ui.previewImportLine(undefined, render(config.importLinePattern)))
+  config.importLinePatterns?.forEach(pattern => lines.push(alloglot.ui.previewImportLine(pattern.name, render(pattern.pattern))))
+  lines.push('')
+
+  return lines
+}
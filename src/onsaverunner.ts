@@ -1,21 +1,21 @@
 import * as vscode from 'vscode'
 
-import { LanguageConfig, alloglot } from './config'
-import { AsyncProcess, Disposal } from './utils'
+import { Config, LanguageConfig, alloglot } from './config'
+import { AsyncProcess, Disposal, isInFolder } from './utils'
 
-export function makeOnSaveRunner(output: vscode.OutputChannel, config: LanguageConfig): vscode.Disposable {
-  const { languageId, onSaveCommand } = config
-  if (!languageId || !onSaveCommand) return vscode.Disposable.from()
+export function makeOnSaveRunner(output: vscode.OutputChannel, config: LanguageConfig, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const { languageId, onSaveCommand, overrides } = config
+  if (!languageId || !(onSaveCommand || overrides?.some(override => override.onSaveCommand))) return vscode.Disposable.from()
 
   const disposal = Disposal.make()
-  const basedir = vscode.workspace.workspaceFolders?.[0].uri
+  const basedir = folder?.uri
   output.appendLine(alloglot.ui.registeringOnSaveCommand)
 
   const onSaveWatcher = (() => {
-    if (!onSaveCommand) return vscode.Disposable.from()
-
     const refreshTags = (doc: vscode.TextDocument) => {
-      if (doc.languageId === languageId) {
+      if (doc.languageId === languageId && isInFolder(doc.uri, folder)) {
+        const onSaveCommand = Config.forFile(config, doc.uri, folder).onSaveCommand
+        if (!onSaveCommand) return
         const command = onSaveCommand.replace('${file}', doc.fileName)
         disposal.insert(AsyncProcess.exec({ output, command, basedir }, () => undefined).disposable)
       }
@@ -0,0 +1,112 @@
+import { Annotation, ProblemPattern } from './config'
+
+export namespace ProblemMatcher {
+  /**
+   * Read the problems in plain text with problem-matcher `patterns`, in the style of VS Code's problem matchers.
+   * With one pattern, every matching line is a problem.
+   * With several patterns, each run of consecutive lines matching the patterns in order is a problem,
+   * and if the last pattern loops, each further line it matches is another problem.
+   * Lines and columns are 1-based, and missing ones default to the start of the file or line.
+   * Problems without a file or a message are skipped.
+   */
+  export function readAnnotations(text: string, patterns: Array<ProblemPattern>, source: string, parseSeverity: (raw?: string) => Annotation['severity']): Array<Annotation> {
+    const matchers = patterns.map(pattern => ({ pattern, regexp: new RegExp(pattern.regexp) }))
+    const lines = text.split(/\r?\n/)
+    const annotations: Array<Annotation> = []
+
+    function emit(data: ProblemData): void {
+      const annotation = asAnnotation(data, source, parseSeverity)
+      annotation && annotations.push(annotation)
+    }
+
+    let i = 0
+    while (i < lines.length) {
+      // all the patterns must match consecutive lines, or none of them count.
+      let data: ProblemData = {}
+      let shared: ProblemData = {}
+      let matched = 0
+      for (; matched < matchers.length && i + matched < lines.length; matched++) {
+        const { pattern, regexp } = matchers[matched]
+        const match = lines[i + matched].match(regexp)
+        if (!match) break
+        if (matched === matchers.length - 1) shared = data
+        data = fill(data, pattern, match)
+      }
+
+      if (matched < matchers.length) {
+        i++
+        continue
+      }
+
+      emit(data)
+      i += matched
+
+      const last = matchers[matchers.length - 1]
+      if (matchers.length > 1 && last.pattern.loop) {
+        // each further match of the last pattern shares what the earlier patterns matched.
+        for (; i < lines.length; i++) {
+          const match = lines[i].match(last.regexp)
+          if (!match) break
+          emit(fill(shared, last.pattern, match))
+        }
+      }
+    }
+
+    return annotations
+  }
+
+  type ProblemData = {
+    file?: string
+    line?: number
+    column?: number
+    endLine?: number
+    endColumn?: number
+    severity?: string
+    message?: string
+    code?: string
+  }
+
+  // fields already filled by an earlier line are kept, except messages, which are joined.
+  function fill(data: ProblemData, pattern: ProblemPattern, match: RegExpMatchArray): ProblemData {
+    const group = (index?: number) => index === undefined ? undefined : match[index]?.trim() || undefined
+    const number = (index?: number) => {
+      const value = group(index)
+      return value === undefined || isNaN(Number(value)) ? undefined : Number(value)
+    }
+
+    const location = group(pattern.location)?.split(',').map(Number)
+    const fromLocation: ProblemData = location && location.every(x => !isNaN(x))
+      ? location.length === 4
+        ? { line: location[0], column: location[1], endLine: location[2], endColumn: location[3] }
+        : { line: location[0], column: location[1] }
+      : {}
+
+    const message = group(pattern.message)
+
+    return {
+      file: data.file ?? group(pattern.file),
+      line: data.line ?? fromLocation.line ?? number(pattern.line),
+      column: data.column ?? fromLocation.column ?? number(pattern.column),
+      endLine: data.endLine ?? fromLocation.endLine ?? number(pattern.endLine),
+      endColumn: data.endColumn ?? fromLocation.endColumn ?? number(pattern.endColumn),
+      severity: data.severity ?? group(pattern.severity),
+      message: data.message && message ? `${data.message}\n${message}` : data.message ?? message,
+      code: data.code ?? group(pattern.code)
+    }
+  }
+
+  function asAnnotation(data: ProblemData, source: string, parseSeverity: (raw?: string) => Annotation['severity']): Annotation | undefined {
+    const { file, message } = data
+    if (!file || !message) return undefined
+    const startLine = data.line || 1
+    const startColumn = data.column || 1
+    return {
+      file, message, source, startLine, startColumn,
+      endLine: data.endLine || startLine,
+      endColumn: data.endColumn || startColumn,
+      severity: parseSeverity(data.severity),
+      replacements: [],
+      referenceCode: data.code
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode'
+
+import { Annotation, AnnotationEdit, AnnotationFix, AnnotationLocation } from './config'
+
+export namespace Sarif {
+  /**
+   * Read the results of every run of a SARIF 2.1 log as annotations.
+   * Results without a physical location are skipped.
+   * Files are file paths: absolute when the log has absolute `file:` URIs (or the URI base resolves to one),
+   * and otherwise relative, to be resolved against the directory of the log.
+   */
+  export function readAnnotations(log: any, defaultSource: string): Array<Annotation> {
+    const runs: Array<any> = Array.isArray(log?.runs) ? log.runs : []
+    return runs.flatMap(run => {
+      const results: Array<any> = Array.isArray(run?.results) ? run.results : []
+      return results.map(result => readResult(run, result, defaultSource)).filter(x => x) as Array<Annotation>
+    })
+  }
+
+  function readResult(run: any, result: any, defaultSource: string): Annotation | undefined {
+    const location = readLocation(run, result.locations?.[0]?.physicalLocation)
+    if (!location) return undefined
+
+    const rule = findRule(run, result)
+    const message = readMessage(result.message, rule) || rule?.shortDescription?.text || ''
+    if (!message) return undefined
+
+    const fixes: Array<AnnotationFix> = (result.fixes || []).map((fix: any) => ({
+      description: fix.description?.text,
+      edits: (fix.artifactChanges || []).flatMap((change: any) => (change.replacements || []).map((replacement: any) => {
+        const deleted = readLocation(run, { artifactLocation: change.artifactLocation, region: replacement.deletedRegion })
+        if (!deleted) return undefined
+        const edit: AnnotationEdit = { ...deleted, text: replacement.insertedContent?.text || '' }
+        return edit
+      })).filter((x: AnnotationEdit | undefined) => x)
+    })).filter((fix: AnnotationFix) => fix.edits.length > 0)
+
+    const relatedLocations: Array<AnnotationLocation> = (result.relatedLocations || []).map((related: any) => {
+      const relatedLocation = readLocation(run, related.physicalLocation)
+      return relatedLocation && { ...relatedLocation, message: readMessage(related.message) || message }
+    }).filter((x: AnnotationLocation | undefined) => x)
+
+    return {
+      ...location,
+      message,
+      source: run.tool?.driver?.name || defaultSource,
+      severity: asSeverity(result.level || rule?.defaultConfiguration?.level),
+      replacements: [],
+      referenceCode: result.ruleId || rule?.id,
+      referenceUri: rule?.helpUri,
+      fixes,
+      relatedLocations
+    }
+  }
+
+  // a result refers to its rule by index into the driver's rules, or by id.
+  function findRule(run: any, result: any): any {
+    const rules: Array<any> = run.tool?.driver?.rules || []
+    const index = result.rule?.index ?? result.ruleIndex
+    if (typeof index === 'number' && rules[index]) return rules[index]
+    const id = result.rule?.id ?? result.ruleId
+    return id === undefined ? undefined : rules.find(rule => rule.id === id)
+  }
+
+  // messages are plain text, or a template from the rule's `messageStrings` with `{0}`-style placeholders.
+  function readMessage(message: any, rule?: any): string | undefined {
+    if (!message) return undefined
+    const template: string | undefined = message.text ?? message.markdown ?? (message.id && rule?.messageStrings?.[message.id]?.text)
+    const args: Array<string> = message.arguments || []
+    return template?.replace(/\{(\d+)\}/g, (placeholder, i) => args[Number(i)] ?? placeholder)
+  }
+
+  function readLocation(run: any, physicalLocation: any): Omit<AnnotationLocation, 'message'> | undefined {
+    const file = physicalLocation && readArtifact(run, physicalLocation.artifactLocation)
+    if (!file) return undefined
+    const region = physicalLocation.region || {}
+    const startLine = region.startLine || 1
+    const startColumn = region.startColumn || 1
+    const endLine = region.endLine || startLine
+    const endColumn = region.endColumn || (endLine === startLine ? startColumn : 1)
+    return { file, startLine, startColumn, endLine, endColumn }
+  }
+
+  // an artifact is named by a URI, possibly relative to a named base, or by index into the run's artifacts.
+  function readArtifact(run: any, artifactLocation: any, depth = 0): string | undefined {
+    if (!artifactLocation || depth > maxBaseDepth) return undefined
+    const indexed = typeof artifactLocation.index === 'number' ? run.artifacts?.[artifactLocation.index]?.location : undefined
+    const uri: string | undefined = artifactLocation.uri ?? indexed?.uri
+    if (!uri) return undefined
+    if (/^[a-zA-Z][a-zA-Z0-9+.-]+:/.test(uri)) return vscode.Uri.parse(uri).fsPath
+
+    const baseId = artifactLocation.uriBaseId ?? indexed?.uriBaseId
+    const base = baseId && readArtifact(run, run.originalUriBaseIds?.[baseId], depth + 1)
+    const relative = decodeURIComponent(uri)
+    return base ? vscode.Uri.joinPath(vscode.Uri.file(base), relative).fsPath : relative
+  }
+
+  const maxBaseDepth = 8
+
+  function asSeverity(level: string | undefined): Annotation['severity'] {
+    switch (level) {
+      case 'error': return 'error'
+      case 'note': return 'info'
+      case 'none': return 'hint'
+      default: return 'warning'
+    }
+  }
+}
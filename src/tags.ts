@@ -1,183 +1,321 @@
+import { extname } from 'path'
 import * as vscode from 'vscode'
 
-import { LanguageConfig, StringTransformation, TagsConfig, alloglot } from './config'
-import { AsyncProcess, Disposal, IAsyncProcess, IHierarchicalOutputChannel } from './utils'
+import { Config, LanguageConfig, TagsConfig, alloglot } from './config'
+import { ImportEdit, Imports } from './imports'
+import { ITagsSource, TagsSource } from './tagssource'
+import { Disposal, IHierarchicalOutputChannel, escapeRegExp, folderSelector, fuzzyScore } from './utils'
 
-export function makeTags(output: IHierarchicalOutputChannel, grepPath: string, config: LanguageConfig, verboseOutput: boolean): vscode.Disposable {
-  const { languageId, tags } = config
-  if (!languageId || !tags || tags.length === 0) return vscode.Disposable.from()
-  return vscode.Disposable.from(...tags.map(tag => makeTag(output.local(tag.file), grepPath, languageId, tag, verboseOutput)))
+export function makeTags(output: IHierarchicalOutputChannel, grepPath: string, config: LanguageConfig, verboseOutput: boolean, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const { languageId, tags, overrides } = config
+  const allTags = Array.from(new Set([...tags || [], ...overrides?.flatMap(override => override.tags || []) || []]))
+  if (!languageId || allTags.length === 0) return vscode.Disposable.from()
+
+  // with overrides, each tags file only serves the documents whose effective `tags` include it.
+  const appliesTo = (tag: TagsConfig) => (document: vscode.TextDocument) =>
+    !overrides?.length || !!Config.forFile(config, document.uri, folder).tags?.includes(tag)
+
+  return vscode.Disposable.from(...allTags.map(tag => makeTag(output.local(tag.file), grepPath, languageId, tag, verboseOutput, appliesTo(tag), folder)))
+}
+
+/**
+ * Register `Alloglot: Suggest Imports...`.
+ * The command is registered once, and asks every tags file with an imports provider for the current document.
+ */
+export function makeSuggestImports(output: vscode.OutputChannel): vscode.Disposable {
+  return vscode.commands.registerTextEditorCommand(alloglot.commands.suggestImports, editor => {
+    output.appendLine(alloglot.ui.runningSuggestImports)
+    const { document, selection } = editor
+    const wordRange = document.getWordRangeAtPosition(selection.start)
+    if (!wordRange) return undefined
+    const suggesters = Array.from(importSuggesters).filter(({ selector }) => vscode.languages.match(selector, document) > 0)
+    const suggestions = Promise.all(suggesters.map(({ suggest }) => suggest(document, wordRange))).then(xss => {
+      const uniqueModules = new Map<string, ImportSuggestion>(xss.flat().map(x => [x.label, x]))
+      return Array.from(uniqueModules.values())
+    })
+    vscode.window.showQuickPick<ImportSuggestion>(suggestions).then(pick => {
+      output.appendLine(alloglot.ui.pickedSuggestion(pick))
+      pick?.edit && vscode.workspace.applyEdit(pick.edit).then(success => {
+        output.appendLine(alloglot.ui.appliedEdit(success))
+      })
+    })
+  })
 }
 
-function makeTag(output: IHierarchicalOutputChannel, grepPath: string, languageId: string, cfg: TagsConfig, verboseOutput: boolean): vscode.Disposable {
-  const { file, completionsProvider, definitionsProvider, importsProvider, initTagsCommand, refreshTagsCommand } = cfg
+const importSuggesters = new Set<{
+  selector: vscode.DocumentFilter
+  suggest: (document: vscode.TextDocument, range: vscode.Range) => Promise<Array<ImportSuggestion>>
+}>()
 
-  const basedir: vscode.Uri | undefined = vscode.workspace.workspaceFolders?.[0].uri
+function makeTag(output: IHierarchicalOutputChannel, grepPath: string, languageId: string, cfg: TagsConfig, verboseOutput: boolean, appliesTo: (document: vscode.TextDocument) => boolean, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const { file, completionsProvider, definitionsProvider, importsProvider, workspaceSymbolProvider, documentSymbolProvider, hoverProvider, referencesProvider, renameProvider, referencesInclude, initTagsCommand, refreshTagsCommand, format, useGrep } = cfg
+
+  const basedir: vscode.Uri | undefined = folder?.uri
+  const selector = folderSelector(languageId, folder)
   const tagsUri: vscode.Uri | undefined = basedir && vscode.Uri.joinPath(basedir, file)
 
   if (!basedir || !tagsUri) return vscode.Disposable.from()
 
-  if (!completionsProvider && !definitionsProvider && !importsProvider) return vscode.Disposable.from()
+  if (!completionsProvider && !definitionsProvider && !importsProvider && !workspaceSymbolProvider && !documentSymbolProvider && !hoverProvider && !referencesProvider && !renameProvider) return vscode.Disposable.from()
 
   output.appendLine(alloglot.ui.startingTags)
   const tagsSourceOutput = verboseOutput ? output.local(alloglot.components.tagsSource).split() : undefined
-  const tagsSource = TagsSource.make({ languageId, grepPath, basedir, tagsUri, output: tagsSourceOutput, initTagsCommand, refreshTagsCommand })
+  const tagsSource = TagsSource.make({ languageId, grepPath, format, useGrep, basedir, folder, tagsUri, output: tagsSourceOutput, initTagsCommand, refreshTagsCommand })
 
   const disposal = Disposal.make()
   disposal.insert(tagsSource)
   tagsSourceOutput && disposal.insert(tagsSourceOutput)
 
+  const importsProviderOutput = importsProvider && verboseOutput ? output.local(alloglot.components.importsProvider).split() : undefined
+  const imports = importsProvider ? Imports.make(importsProvider, importsProviderOutput) : undefined
+  importsProviderOutput && disposal.insert(importsProviderOutput)
+
   if (completionsProvider) {
     output.appendLine(alloglot.ui.registeringCompletionsProvider)
+    const completionContexts = new WeakMap<vscode.CompletionItem, { tag: TagsSource.Tag, document: vscode.TextDocument, addImport: boolean }>()
+    const addImportOnCompletion = importsProvider?.addImportOnCompletion !== false
+
+    function definingModule(tag: TagsSource.Tag): string {
+      return imports?.renderModuleName(tag) || vscode.workspace.asRelativePath(tagsSource.fileUri(tag))
+    }
+
+    // the completion and inline completion providers ask for the same keystroke, so they share the last result.
+    let lastCompletions: { key: string, completions: Promise<Completions | undefined> } | undefined = undefined
 
-    function getCompletions(document: vscode.TextDocument, position: vscode.Position): Promise<Array<[vscode.CompletionItem, vscode.InlineCompletionItem]>> {
+    function getCompletions(document: vscode.TextDocument, position: vscode.Position): Promise<Completions | undefined> {
+      const key = `${document.uri.toString()}@${document.version}:${position.line}:${position.character}`
+      if (lastCompletions?.key !== key) lastCompletions = { key, completions: findCompletions(document, position) }
+      return lastCompletions.completions
+    }
+
+    /**
+     * Fuzzy-match tags against the word at `position`, best first.
+     * Symbols defined in the current document or in a module it imports rank higher.
+     * Only symbols defined in the current document are taken to be in scope; whether the others need an import is decided on resolve.
+     */
+    function findCompletions(document: vscode.TextDocument, position: vscode.Position): Promise<Completions | undefined> {
       const wordRange = document.getWordRangeAtPosition(position)
-      if (!wordRange) return Promise.resolve([])
-      return tagsSource
-        .findPrefix(document.getText(wordRange), 500)
-        .then(tags => tags
-          .map(tag => tag.symbol)
-          .filter((x, i, xs) => xs.indexOf(x) === i)
-          .map(symbol => {
-            const comp = new vscode.CompletionItem(symbol)
-            const inlComp = new vscode.InlineCompletionItem(symbol, wordRange)
-            return [comp, inlComp]
-          })
-        )
+      if (!wordRange || !appliesTo(document)) return Promise.resolve(undefined)
+      const word = document.getText(wordRange)
+      const isImported = imports?.isImported(document)
+
+      return tagsSource.findFuzzy(word, completionCandidates).then(tags => {
+        const scored = tags.map(tag => {
+          let score = fuzzyScore(word, tag.symbol) || 0
+          let inScope = false
+          if (tagsSource.fileUri(tag).fsPath === document.uri.fsPath) {
+            score += currentFileBoost
+            inScope = true
+          } else if (imports && isImported) {
+            const moduleName = imports.renderModuleName(tag)
+            if (moduleName && isImported(moduleName)) score += importedModuleBoost
+          }
+          return { tag, inScope, score }
+        })
+        scored.sort((a, b) => b.score - a.score)
+        return { wordRange, candidates: scored.slice(0, completionLimit) }
+      })
     }
 
-    disposal.insert(vscode.languages.registerCompletionItemProvider(languageId, {
-      provideCompletionItems: (doc, pos) => getCompletions(doc, pos).then(xs => xs.map(([x, _]) => x))
+    function makeCompletionItem(document: vscode.TextDocument, tag: TagsSource.Tag, inScope: boolean, moduleName: string, rank: number): vscode.CompletionItem {
+      const item = new vscode.CompletionItem({ label: tag.symbol, description: moduleName }, asCompletionItemKind(tag.kind))
+      item.detail = moduleName
+      // our ranking breaks ties in the editor's own fuzzy scoring.
+      item.sortText = rank.toString().padStart(6, '0')
+      const addImport = addImportOnCompletion && !!imports && !inScope && !tag.fileScoped
+      completionContexts.set(item, { tag, document, addImport })
+      return item
+    }
+
+    // the import edit is computed on resolve, against the document as it is when the item is picked.
+    function addImportEdit(item: vscode.CompletionItem, document: vscode.TextDocument, tag: TagsSource.Tag): void {
+      const importEdit = imports?.importEdit(document, tag)
+      if (importEdit) item.additionalTextEdits = [importEdit.edit]
+    }
+
+    disposal.insert(vscode.languages.registerCompletionItemProvider(selector, {
+      provideCompletionItems: (doc, pos) => getCompletions(doc, pos).then(completions => {
+        if (!completions) return []
+        const seen = new Set<string>()
+        const items: Array<vscode.CompletionItem> = []
+        completions.candidates.forEach(({ tag, inScope }) => {
+          const moduleName = definingModule(tag)
+          const key = `${tag.symbol}\t${moduleName}`
+          if (seen.has(key)) return
+          seen.add(key)
+          items.push(makeCompletionItem(doc, tag, inScope, moduleName, items.length))
+        })
+        // results are capped, so ask to be called again as the user keeps typing.
+        return new vscode.CompletionList(items, true)
+      }),
+
+      resolveCompletionItem: item => {
+        const context = completionContexts.get(item)
+        if (!context) return item
+        const { tag, document, addImport } = context
+        addImport && addImportEdit(item, document, tag)
+        return renderDefinition(tagsSource, languageId, tag).then(documentation => {
+          item.documentation = documentation
+          return item
+        })
+      }
     }))
-    disposal.insert(vscode.languages.registerInlineCompletionItemProvider(languageId, {
-      provideInlineCompletionItems: (doc, pos) => getCompletions(doc, pos).then(xs => xs.map(([_, y]) => y))
+    disposal.insert(vscode.languages.registerInlineCompletionItemProvider(selector, {
+      // ghost text can only extend what's already typed, so inline completions use prefix matches only.
+      provideInlineCompletionItems: (doc, pos) => getCompletions(doc, pos).then(completions => {
+        if (!completions) return []
+        const word = doc.getText(completions.wordRange)
+        return completions.candidates
+          .map(({ tag }) => tag.symbol)
+          .filter((x, i, xs) => x.startsWith(word) && xs.indexOf(x) === i)
+          .map(symbol => new vscode.InlineCompletionItem(symbol, completions.wordRange))
+      })
     }))
     output.appendLine(alloglot.ui.registeredCompletionsProvider)
   }
 
   if (definitionsProvider) {
     output.appendLine(alloglot.ui.registeringDefinitionsProvider)
-    disposal.insert(vscode.languages.registerDefinitionProvider(languageId, {
+    disposal.insert(vscode.languages.registerDefinitionProvider(selector, {
       provideDefinition: (document, position) => {
         const wordRange = document.getWordRangeAtPosition(position)
-        if (!wordRange) return Promise.resolve([])
+        if (!wordRange || !appliesTo(document)) return Promise.resolve([])
         return tagsSource
           .findExact(document.getText(wordRange))
-          .then(tags => tags.map(tag => new vscode.Location(vscode.Uri.joinPath(basedir, tag.file), new vscode.Position(tag.lineNumber, 0))))
+          .then(tags => Promise.all(tags.map(tag => tagsSource.locate(tag))))
       }
     }))
     output.appendLine(alloglot.ui.registeredDefinitionsProvider)
   }
 
-  if (importsProvider) {
-    output.appendLine(alloglot.ui.registeringImportsProvider)
-    const importsProviderOutput = verboseOutput ? output.local(alloglot.components.importsProvider).split() : undefined
-    const { matchFromFilepath, importLinePattern, renderModuleName } = importsProvider
-
-    function applyStringTransformation(cmd: StringTransformation, xs: Array<string>): Array<string> {
-      importsProviderOutput?.appendLine(alloglot.ui.applyingTransformation(cmd, xs))
-      switch (cmd.tag) {
-        case 'replace':
-          return xs.map(x => x.replace(new RegExp(cmd.from, 'g'), cmd.to))
-        case 'split':
-          return xs.flatMap(x => x.split(cmd.on))
-        case 'join':
-          return [xs.join(cmd.with)]
-        case 'toUpper':
-          return xs.map(x => x.toUpperCase())
-        case 'toLower':
-          return xs.map(x => x.toLowerCase())
-        case 'capitalize':
-          return xs.map(x => x.charAt(0).toUpperCase() + x.slice(1))
+  if (workspaceSymbolProvider) {
+    output.appendLine(alloglot.ui.registeringWorkspaceSymbolProvider)
+    const symbolTags = new WeakMap<vscode.SymbolInformation, TagsSource.Tag>()
+
+    disposal.insert(vscode.languages.registerWorkspaceSymbolProvider({
+      provideWorkspaceSymbols: query => tagsSource.findFuzzy(query, 500).then(tags => tags.map(tag => {
+        // leave the range undefined so that it's resolved only for the symbol the user picks.
+        const location = unresolvedLocation(tagsSource.fileUri(tag))
+        const symbol = new vscode.SymbolInformation(tag.symbol, asSymbolKind(tag.kind), tag.scope?.name || '', location)
+        symbolTags.set(symbol, tag)
+        return symbol
+      })),
+
+      resolveWorkspaceSymbol: symbol => {
+        const tag = symbolTags.get(symbol)
+        if (!tag) return symbol
+        return tagsSource.locate(tag).then(location => {
+          symbol.location = location
+          return symbol
+        })
       }
-    }
-
-    function applyStringTransformations(cmds: Array<StringTransformation>, x: string): string {
-      importsProviderOutput?.appendLine(alloglot.ui.applyingTransformations(cmds, x))
-      let buffer = [x]
-      cmds.forEach(cmd => buffer = applyStringTransformation(cmd, buffer))
-      const result = buffer.join()
-      importsProviderOutput?.appendLine(alloglot.ui.transformationResult(result))
-      return result
-    }
-
-    function renderImportLine(tag: TagsSource.Tag): { renderedImport?: string, renderedModuleName?: string } {
-      importsProviderOutput?.appendLine(alloglot.ui.renderingImportLine(tag))
+    }))
+    output.appendLine(alloglot.ui.registeredWorkspaceSymbolProvider)
+  }
 
-      const fileMatcher = new RegExp(matchFromFilepath)
-      importsProviderOutput?.appendLine(alloglot.ui.usingFileMatcher(fileMatcher))
+  if (documentSymbolProvider) {
+    output.appendLine(alloglot.ui.registeringDocumentSymbolProvider)
+    disposal.insert(vscode.languages.registerDocumentSymbolProvider(
+      selector,
+      { provideDocumentSymbols: document => appliesTo(document) ? tagsSource.findFile(document.uri).then(tags => makeDocumentSymbols(document, tags)) : [] },
+      { label: file }
+    ))
+    output.appendLine(alloglot.ui.registeredDocumentSymbolProvider)
+  }
 
-      const match = tag.file.match(fileMatcher)
-      importsProviderOutput?.appendLine(alloglot.ui.fileMatcherResult(match))
+  if (hoverProvider) {
+    output.appendLine(alloglot.ui.registeringHoverProvider)
 
-      const symbol = tag.symbol
+    disposal.insert(vscode.languages.registerHoverProvider(selector, {
+      provideHover: (document, position) => {
+        const wordRange = document.getWordRangeAtPosition(position)
+        if (!wordRange || !appliesTo(document)) return undefined
+        return tagsSource
+          .findExact(document.getText(wordRange), hoverMaxDefinitions + 1)
+          .then(tags => Promise.all(tags.slice(0, hoverMaxDefinitions).map(tag => renderDefinition(tagsSource, languageId, tag))).then(definitions => {
+            if (definitions.length === 0) return undefined
+            if (tags.length > hoverMaxDefinitions) definitions.push(new vscode.MarkdownString(alloglot.ui.moreDefinitions))
+            return new vscode.Hover(definitions, wordRange)
+          }))
+      }
+    }))
+    output.appendLine(alloglot.ui.registeredHoverProvider)
+  }
 
-      const renderedModuleName = match && match.length > 0
-        ? applyStringTransformations(renderModuleName, match[0])
-        : undefined
-      importsProviderOutput?.appendLine(alloglot.ui.renderedModuleName(renderedModuleName))
+  if (referencesProvider || renameProvider) {
+    // only words that are defined in the tags file have references we can find.
+    function getTaggedWord(document: vscode.TextDocument, position: vscode.Position): Promise<{ symbol: string, range: vscode.Range } | undefined> {
+      const range = document.getWordRangeAtPosition(position)
+      if (!range || !appliesTo(document)) return Promise.resolve(undefined)
+      const symbol = document.getText(range)
+      return tagsSource.findExact(symbol, 1).then(tags => tags.length > 0 ? { symbol, range } : undefined)
+    }
 
-      const renderedImport = renderedModuleName
-        ? importLinePattern.replace('${module}', renderedModuleName).replace('${symbol}', symbol) + '\n'
-        : undefined
-      importsProviderOutput?.appendLine(alloglot.ui.renderedImportLine(renderedImport))
+    function findReferences(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<Array<vscode.Location>> {
+      return getTaggedWord(document, position).then(word => {
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri)
+        if (!word || !folder) return []
+        const include = referencesInclude || `**/*${extname(document.fileName)}`
+        return findWholeWord(folder, include, word.symbol, token)
+      })
+    }
 
-      return { renderedImport, renderedModuleName }
+    if (referencesProvider) {
+      output.appendLine(alloglot.ui.registeringReferencesProvider)
+      disposal.insert(vscode.languages.registerReferenceProvider(selector, {
+        provideReferences: (document, position, context, token) => findReferences(document, position, token)
+      }))
+      output.appendLine(alloglot.ui.registeredReferencesProvider)
     }
 
-    function findImportPosition(document: vscode.TextDocument): vscode.Position {
-      importsProviderOutput?.appendLine(alloglot.ui.findingImportPosition)
-      const importMatcher = new RegExp(importLinePattern.replace('${module}', '(.*)').replace('${symbol}', '(.*)'))
-      const fullText = document.getText().split('\n')
-      const firstImportLine = fullText.findIndex(line => line.match(importMatcher))
-      if (firstImportLine >= 0) {
-        importsProviderOutput?.appendLine(alloglot.ui.foundImportPosition(firstImportLine))
-        return new vscode.Position(firstImportLine, 0)
-      }
-      const firstBlankLine = fullText.findIndex(line => line.match(/^\s*$/))
-      if (firstBlankLine >= 0) {
-        importsProviderOutput?.appendLine(alloglot.ui.foundBlankLine(firstBlankLine))
-        return new vscode.Position(firstBlankLine, 0)
-      }
-      importsProviderOutput?.appendLine(alloglot.ui.noBlankLineFound)
-      return new vscode.Position(0, 0)
+    if (renameProvider) {
+      output.appendLine(alloglot.ui.registeringRenameProvider)
+      disposal.insert(vscode.languages.registerRenameProvider(selector, {
+        prepareRename: (document, position) => getTaggedWord(document, position).then(word => {
+          if (!word) throw new Error(alloglot.ui.notATaggedSymbol)
+          return { range: word.range, placeholder: word.symbol }
+        }),
+
+        provideRenameEdits: (document, position, newName, token) => findReferences(document, position, token).then(locations => {
+          const edit = new vscode.WorkspaceEdit()
+          const metadata = { label: alloglot.ui.renameSymbol(newName), needsConfirmation: true }
+          locations.forEach(location => edit.replace(location.uri, location.range, newName, metadata))
+          return edit
+        })
+      }))
+      output.appendLine(alloglot.ui.registeredRenameProvider)
     }
+  }
+
+  if (imports) {
+    output.appendLine(alloglot.ui.registeringImportsProvider)
+    const { findQualifier, importEdits } = imports
 
-    function makeImportSuggestion(document: vscode.TextDocument, tag: TagsSource.Tag): ImportSuggestion | undefined {
-      importsProviderOutput?.appendLine(alloglot.ui.makingImportSuggestion(tag))
-      const { renderedImport, renderedModuleName } = renderImportLine(tag)
-      if (!renderedImport || !renderedModuleName) return undefined
-      const position = findImportPosition(document)
-      const label = alloglot.ui.addImport(renderedModuleName)
+    function makeImportSuggestion(document: vscode.TextDocument, suggestion: ImportEdit): ImportSuggestion {
+      const { moduleName, pattern } = suggestion
+      const label = pattern ? alloglot.ui.addNamedImport(pattern.name, moduleName) : alloglot.ui.addImport(moduleName)
       const edit = new vscode.WorkspaceEdit()
-      edit.insert(document.uri, position, renderedImport)
+      edit.set(document.uri, [suggestion.edit])
       return { label, edit }
     }
 
+    // a qualified usage, like `Map.insert`, gets the qualified imports; anything else gets the unqualified ones.
     function getImportSuggestions(document: vscode.TextDocument, range: vscode.Range): Promise<Array<ImportSuggestion>> {
+      if (!appliesTo(document)) return Promise.resolve([])
+      const qualifier = findQualifier(document, range)
       return tagsSource.findExact(document.getText(range))
-        .then(tags => tags.map(tag => makeImportSuggestion(document, tag)).filter(x => x) as Array<ImportSuggestion>)
-    }
-
-    function runSuggestImports(editor: vscode.TextEditor): void {
-      importsProviderOutput?.appendLine(alloglot.ui.runningSuggestImports)
-      const { document, selection } = editor
-      const wordRange = document.getWordRangeAtPosition(selection.start)
-      if (!wordRange) return undefined
-      const suggestions = getImportSuggestions(document, wordRange).then(xs => {
-        const uniqueModules = new Map<string, ImportSuggestion>(xs.map(x => [x.label, x]))
-        return Array.from(uniqueModules.values())
-      })
-      vscode.window.showQuickPick<ImportSuggestion>(suggestions).then(pick => {
-        importsProviderOutput?.appendLine(alloglot.ui.pickedSuggestion(pick))
-        pick?.edit && vscode.workspace.applyEdit(pick.edit).then(success => {
-          importsProviderOutput?.appendLine(alloglot.ui.appliedEdit(success))
+        .then(tags => {
+          const importable = tags.filter(tag => !tag.fileScoped)
+          importable.forEach(tag => importsProviderOutput?.appendLine(alloglot.ui.makingImportSuggestion(tag)))
+          return importEdits(document, importable, qualifier).map(x => makeImportSuggestion(document, x))
         })
-      })
     }
 
-    disposal.insert(vscode.commands.registerTextEditorCommand(alloglot.commands.suggestImports, runSuggestImports))
-    disposal.insert(vscode.languages.registerCodeActionsProvider(languageId, {
+    const suggester = { selector, suggest: getImportSuggestions }
+    importSuggesters.add(suggester)
+    disposal.insert({ dispose: () => importSuggesters.delete(suggester) })
+
+    disposal.insert(vscode.languages.registerCodeActionsProvider(selector, {
       provideCodeActions(document, range) {
         importsProviderOutput?.appendLine(alloglot.ui.providingCodeActions)
         return getImportSuggestions(document, range).then(xs => xs.map(x => {
@@ -199,100 +337,248 @@ type ImportSuggestion = {
   edit: vscode.WorkspaceEdit
 }
 
-interface ITagsSource extends vscode.Disposable {
-  findPrefix(prefix: string, limit?: number): Promise<Array<TagsSource.Tag>>
-  findExact(exact: string, limit?: number): Promise<Array<TagsSource.Tag>>
+type Completions = {
+  wordRange: vscode.Range
+  candidates: Array<{ tag: TagsSource.Tag, inScope: boolean }>
 }
 
-namespace TagsSource {
-  export type Tag = {
-    symbol: string
-    file: string
-    lineNumber: number
-  }
+/**
+ * A location without a range, for a workspace symbol whose range is filled in by `resolveWorkspaceSymbol`.
+ * The API allows this (see `WorkspaceSymbolProvider.resolveWorkspaceSymbol`), and so does the `Location` constructor, but its typings don't.
+ */
+function unresolvedLocation(uri: vscode.Uri): vscode.Location {
+  return new vscode.Location(uri, undefined as unknown as vscode.Range)
+}
 
-  export type Config = {
-    languageId: string,
-    basedir: vscode.Uri,
-    tagsUri: vscode.Uri,
-    grepPath: string,
-    output?: vscode.OutputChannel,
-    initTagsCommand?: string,
-    refreshTagsCommand?: string
+/**
+ * Search files matching `include` (relative to `folder`) for whole-word occurrences of `symbol`.
+ * Files excluded by `files.exclude` are skipped.
+ * Open documents are searched as they appear in the editor, including unsaved changes.
+ */
+function findWholeWord(folder: vscode.WorkspaceFolder, include: string, symbol: string, token: vscode.CancellationToken): Promise<Array<vscode.Location>> {
+  const matcher = new RegExp(`(?<![\\p{L}\\p{N}_'$])${escapeRegExp(symbol)}(?![\\p{L}\\p{N}_'$])`, 'gu')
+
+  function searchFile(uri: vscode.Uri): Promise<Array<vscode.Location>> {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+    const text: Promise<string> = document
+      ? Promise.resolve(document.getText())
+      : Promise.resolve(vscode.workspace.fs.readFile(uri)).then(bytes => Buffer.from(bytes).toString('utf-8'))
+
+    return text.then(
+      contents => {
+        const locations: Array<vscode.Location> = []
+        if (!contents.includes(symbol)) return locations
+        contents.split(/\r?\n/).forEach((line, i) => {
+          for (const match of line.matchAll(matcher)) {
+            locations.push(new vscode.Location(uri, new vscode.Range(i, match.index!, i, match.index! + symbol.length)))
+          }
+        })
+        return locations
+      },
+      () => []
+    )
   }
 
-  export function make(config: Config): ITagsSource {
-    const { languageId, basedir, tagsUri, output, initTagsCommand, refreshTagsCommand } = config
-    output?.appendLine(alloglot.ui.creatingTagsSource(tagsUri.fsPath))
-
-    const disposal = Disposal.make()
-
-    if (initTagsCommand) {
-      const command = initTagsCommand
-      disposal.insert(AsyncProcess.exec({ output, command, basedir }, () => undefined).disposable)
+  return Promise.resolve(vscode.workspace.findFiles(new vscode.RelativePattern(folder, include), undefined, undefined, token)).then(async uris => {
+    const locations: Array<vscode.Location> = []
+    for (let i = 0; i < uris.length && !token.isCancellationRequested; i += searchBatchSize) {
+      const batch = await Promise.all(uris.slice(i, i + searchBatchSize).map(searchFile))
+      batch.forEach(xs => locations.push(...xs))
     }
+    return locations
+  })
+}
 
-    const onSaveWatcher = (() => {
-      if (!refreshTagsCommand) return vscode.Disposable.from()
-
-      const refreshTags = (doc: vscode.TextDocument) => {
-        if (doc.languageId === languageId) {
-          const command = refreshTagsCommand.replace('${file}', doc.fileName)
-          disposal.insert(AsyncProcess.exec({ output, command, basedir }, () => undefined).disposable)
-        }
-      }
-
-      return vscode.workspace.onDidSaveTextDocument(refreshTags)
-    })()
-
-    return {
-      findPrefix(prefix, limit = 100) {
-        if (!prefix) return Promise.resolve([])
-        const escaped = prefix.replace(/(["\s'$`\\])/g, '\\$1')
-        const proc = grep(config, new RegExp(`^${escaped}`), limit, output)
-        disposal.insert(proc.disposable)
-        return proc.promise
-      },
+const searchBatchSize = 50
+
+const completionCandidates = 2000
+const completionLimit = 500
+const currentFileBoost = 15
+const importedModuleBoost = 10
+
+/**
+ * Describe where a tag is defined: a link to the definition,
+ * followed by the tag's signature or else a few lines of source around the definition.
+ */
+function renderDefinition(tagsSource: ITagsSource, languageId: string, tag: TagsSource.Tag): Promise<vscode.MarkdownString> {
+  return tagsSource.locate(tag).then(location => {
+    const line = location.range.start.line
+    const link = location.uri.with({ fragment: `L${line + 1}` })
+    const markdown = new vscode.MarkdownString()
+    markdown.appendMarkdown(`[${vscode.workspace.asRelativePath(location.uri)}:${line + 1}](${link})\n`)
+    if (tag.signature) return markdown.appendCodeblock(`${tag.symbol}${tag.signature}`, languageId)
+    // opening a document would tell language servers and `runOn: "open"` commands that the user opened it.
+    return TagsSource.readLines(location.uri).then(
+      lines => line < lines.length ? markdown.appendCodeblock(previewLines(lines, line), languageId) : markdown,
+      () => markdown
+    )
+  })
+}
 
-      findExact(exact, limit = 100) {
-        if (!exact) return Promise.resolve([])
-        const escaped = exact.replace(/(["\s'$`\\])/g, '\\$1')
-        const proc = grep(config, new RegExp(`^${escaped}\\t`), limit, output)
-        disposal.insert(proc.disposable)
-        return proc.promise
-      },
+const hoverMaxDefinitions = 5
+const hoverLinesBefore = 2
+const hoverLinesAfter = 4
+
+/**
+ * A few lines of source around `line`, with blank lines at either end trimmed away.
+ */
+function previewLines(lines: Array<string>, line: number): string {
+  let first = Math.max(line - hoverLinesBefore, 0)
+  let last = Math.min(line + hoverLinesAfter, lines.length - 1)
+  while (first < line && !lines[first].trim()) first++
+  while (last > line && !lines[last].trim()) last--
+  return lines.slice(first, last + 1).join('\n')
+}
 
-      dispose() {
-        onSaveWatcher.dispose()
-        disposal.dispose()
-      }
-    }
+/**
+ * Arrange the tags defined in a document into a symbol tree.
+ * A tag is nested under the nearest preceding tag named by its scope, if there is one.
+ * Each symbol's range extends up to its next sibling, or to the end of its parent.
+ */
+function makeDocumentSymbols(document: vscode.TextDocument, tags: Array<TagsSource.Tag>): Array<vscode.DocumentSymbol> {
+  type Node = { tag: TagsSource.Tag, line: number, children: Array<Node> }
+
+  const lines = document.getText().split(/\r?\n/)
+
+  const seen = new Set<string>()
+  const nodes: Array<Node> = []
+  tags.forEach(tag => {
+    const line = TagsSource.findLine(tag, lines)
+    const key = `${tag.symbol}:${line}`
+    if (line === undefined || seen.has(key)) return
+    seen.add(key)
+    nodes.push({ tag, line, children: [] })
+  })
+  nodes.sort((a, b) => a.line - b.line)
+
+  function findParent(i: number): Node | undefined {
+    const { scope } = nodes[i].tag
+    if (!scope) return undefined
+    // scopes may be qualified, e.g. `Outer::Inner` or `Outer.Inner`.
+    const name = scope.name.split(/::|\.|#/).pop()
+    const candidates = nodes.slice(0, i).reverse().filter(node => node.tag.symbol === name)
+    return candidates.find(node => node.tag.kind === scope.kind) || candidates[0]
   }
 
-  function grep(config: Config, regexp: RegExp, limit: number, output?: vscode.OutputChannel): IAsyncProcess<Array<Tag>> {
-    const { tagsUri, basedir, grepPath } = config
-    const command = `${grepPath} -P '${regexp.source}' ${tagsUri.fsPath} | head -n ${limit}`
-
-    output?.appendLine(`Searching for ${regexp} in ${tagsUri.fsPath}...`)
-    return AsyncProcess.exec({ output, command, basedir }, stdout => filterMap(stdout.split('\n'), line => parseTag(line, output)))
+  const roots: Array<Node> = []
+  nodes.forEach((node, i) => {
+    const parent = findParent(i)
+    parent ? parent.children.push(node) : roots.push(node)
+  })
+
+  function toSymbols(siblings: Array<Node>, end: number): Array<vscode.DocumentSymbol> {
+    return siblings.map((node, i) => {
+      const { tag, line, children } = node
+      const next = siblings[i + 1]
+      let last = next ? Math.max(next.line - 1, line) : Math.max(end, line)
+      while (last > line && !lines[last]?.trim()) last--
+
+      const range = new vscode.Range(line, 0, last, lines[last]?.length || 0)
+      const column = lines[line].indexOf(tag.symbol)
+      const selectionRange = column >= 0
+        ? new vscode.Range(line, column, line, column + tag.symbol.length)
+        : new vscode.Range(line, 0, line, lines[line].length)
+
+      const symbol = new vscode.DocumentSymbol(tag.symbol, tag.signature || tag.kind || '', asSymbolKind(tag.kind), range, selectionRange)
+      symbol.children = toSymbols(children, last)
+      return symbol
+    })
   }
 
-  function parseTag(line: string, output?: vscode.OutputChannel): Tag | undefined {
-    output?.appendLine(alloglot.ui.parsingTagLine(line))
-    const [symbol, file, rawLineNumber] = line.split('\t')
-    let lineNumber = parseInt(rawLineNumber)
-    if (!symbol || !file || !lineNumber) return undefined
-    const tag = { symbol, file, lineNumber }
-    output?.appendLine(alloglot.ui.parsedTagLine(tag))
-    return tag
-  }
+  return toSymbols(roots, lines.length - 1)
+}
 
-  function filterMap<T, U>(xs: Array<T>, f: (x: T) => U | undefined): Array<U> {
-    const result: Array<U> = []
-    for (const x of xs) {
-      const y = f(x)
-      if (y !== undefined) result.push(y)
-    }
-    return result
+function asCompletionItemKind(kind: string | undefined): vscode.CompletionItemKind {
+  switch (asSymbolKind(kind)) {
+    case vscode.SymbolKind.File: return vscode.CompletionItemKind.File
+    case vscode.SymbolKind.Module: return vscode.CompletionItemKind.Module
+    case vscode.SymbolKind.Namespace: return vscode.CompletionItemKind.Module
+    case vscode.SymbolKind.Package: return vscode.CompletionItemKind.Module
+    case vscode.SymbolKind.Class: return vscode.CompletionItemKind.Class
+    case vscode.SymbolKind.Method: return vscode.CompletionItemKind.Method
+    case vscode.SymbolKind.Property: return vscode.CompletionItemKind.Property
+    case vscode.SymbolKind.Field: return vscode.CompletionItemKind.Field
+    case vscode.SymbolKind.Constructor: return vscode.CompletionItemKind.Constructor
+    case vscode.SymbolKind.Enum: return vscode.CompletionItemKind.Enum
+    case vscode.SymbolKind.Interface: return vscode.CompletionItemKind.Interface
+    case vscode.SymbolKind.Function: return vscode.CompletionItemKind.Function
+    case vscode.SymbolKind.Constant: return vscode.CompletionItemKind.Constant
+    case vscode.SymbolKind.EnumMember: return vscode.CompletionItemKind.EnumMember
+    case vscode.SymbolKind.Struct: return vscode.CompletionItemKind.Struct
+    case vscode.SymbolKind.Event: return vscode.CompletionItemKind.Event
+    case vscode.SymbolKind.Operator: return vscode.CompletionItemKind.Operator
+    case vscode.SymbolKind.TypeParameter: return vscode.CompletionItemKind.TypeParameter
+    default: return vscode.CompletionItemKind.Variable
   }
 }
+
+/**
+ * Map a ctags kind to a symbol kind.
+ * Full kind names are matched first, then the single-letter kinds common to most ctags parsers.
+ */
+function asSymbolKind(kind: string | undefined): vscode.SymbolKind {
+  if (!kind) return vscode.SymbolKind.Variable
+  const byName = symbolKindsByName.get(kind.toLowerCase())
+  if (byName !== undefined) return byName
+  const byLetter = symbolKindsByLetter.get(kind)
+  if (byLetter !== undefined) return byLetter
+  return vscode.SymbolKind.Variable
+}
+
+const symbolKindsByName = new Map<string, vscode.SymbolKind>([
+  ['class', vscode.SymbolKind.Class],
+  ['typeclass', vscode.SymbolKind.Interface],
+  ['interface', vscode.SymbolKind.Interface],
+  ['trait', vscode.SymbolKind.Interface],
+  ['protocol', vscode.SymbolKind.Interface],
+  ['struct', vscode.SymbolKind.Struct],
+  ['record', vscode.SymbolKind.Struct],
+  ['union', vscode.SymbolKind.Struct],
+  ['data', vscode.SymbolKind.Struct],
+  ['newtype', vscode.SymbolKind.Struct],
+  ['enum', vscode.SymbolKind.Enum],
+  ['enumerator', vscode.SymbolKind.EnumMember],
+  ['enumconstant', vscode.SymbolKind.EnumMember],
+  ['constructor', vscode.SymbolKind.Constructor],
+  ['function', vscode.SymbolKind.Function],
+  ['func', vscode.SymbolKind.Function],
+  ['prototype', vscode.SymbolKind.Function],
+  ['subroutine', vscode.SymbolKind.Function],
+  ['procedure', vscode.SymbolKind.Function],
+  ['method', vscode.SymbolKind.Method],
+  ['singletonmethod', vscode.SymbolKind.Method],
+  ['member', vscode.SymbolKind.Field],
+  ['field', vscode.SymbolKind.Field],
+  ['property', vscode.SymbolKind.Property],
+  ['variable', vscode.SymbolKind.Variable],
+  ['var', vscode.SymbolKind.Variable],
+  ['local', vscode.SymbolKind.Variable],
+  ['constant', vscode.SymbolKind.Constant],
+  ['const', vscode.SymbolKind.Constant],
+  ['macro', vscode.SymbolKind.Constant],
+  ['define', vscode.SymbolKind.Constant],
+  ['namespace', vscode.SymbolKind.Namespace],
+  ['package', vscode.SymbolKind.Package],
+  ['module', vscode.SymbolKind.Module],
+  ['type', vscode.SymbolKind.TypeParameter],
+  ['typedef', vscode.SymbolKind.TypeParameter],
+  ['alias', vscode.SymbolKind.TypeParameter],
+  ['event', vscode.SymbolKind.Event],
+  ['operator', vscode.SymbolKind.Operator],
+])
+
+const symbolKindsByLetter = new Map<string, vscode.SymbolKind>([
+  ['c', vscode.SymbolKind.Class],
+  ['d', vscode.SymbolKind.Constant],
+  ['e', vscode.SymbolKind.EnumMember],
+  ['f', vscode.SymbolKind.Function],
+  ['g', vscode.SymbolKind.Enum],
+  ['i', vscode.SymbolKind.Interface],
+  ['m', vscode.SymbolKind.Field],
+  ['n', vscode.SymbolKind.Namespace],
+  ['p', vscode.SymbolKind.Function],
+  ['s', vscode.SymbolKind.Struct],
+  ['t', vscode.SymbolKind.TypeParameter],
+  ['u', vscode.SymbolKind.Struct],
+  ['v', vscode.SymbolKind.Variable],
+])
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode'
+
+import { DefinitionPattern, LanguageConfig, alloglot } from './config'
+import { Disposal } from './utils'
+
+/**
+ * Generate a ctags file from the `tagsGenerator` patterns of a {@link LanguageConfig}.
+ * The whole workspace is scanned once, then each saved file's tags are replaced as it's saved.
+ * The tags file is rewritten after every update, so tags sources watching it pick up the changes.
+ */
+export function makeTagsGenerator(output: vscode.OutputChannel, config: LanguageConfig, folder?: vscode.WorkspaceFolder): vscode.Disposable {
+  const { languageId, tagsGenerator } = config
+  if (!languageId || !tagsGenerator || !folder) return vscode.Disposable.from()
+  const basedir = folder
+
+  const { file, patterns, exclude } = tagsGenerator
+  const tagsUri = vscode.Uri.joinPath(basedir.uri, file)
+  const disposal = Disposal.make()
+
+  // a half-written pattern in the settings shouldn't stop the other patterns from working.
+  const matchers = patterns.flatMap(pattern => {
+    try {
+      return [{ pattern, regexp: new RegExp(pattern.pattern) }]
+    } catch (err) {
+      output.appendLine(alloglot.ui.invalidTagsPattern(pattern.pattern, err))
+      return []
+    }
+  })
+
+  // tag lines, keyed by the path of the file they point into.
+  const entries = new Map<string, Array<string>>()
+
+  function scanText(path: string, text: string, which: Array<Matcher>): void {
+    const lines: Array<string> = []
+    text.split(/\r?\n/).forEach((line, i) => which.forEach(({ pattern, regexp }) => {
+      const match = line.match(regexp)
+      const symbol = match && (match.groups?.symbol ?? match[1])
+      symbol && lines.push(renderTagLine(symbol, path, line, i + 1, pattern.kind))
+    }))
+    lines.length > 0 ? entries.set(path, lines) : entries.delete(path)
+  }
+
+  let writeTimer: NodeJS.Timeout | undefined
+  let writing: Promise<void> = Promise.resolve()
+  let disposed = false
+
+  // saving several files at once would otherwise rewrite the tags file once per file.
+  // scans finish asynchronously, so one might try to write after we're disposed.
+  function scheduleWrite(): void {
+    if (disposed) return
+    writeTimer && clearTimeout(writeTimer)
+    writeTimer = setTimeout(() => {
+      writeTimer = undefined
+      writing = writing.then(write)
+    }, writeDelayMs)
+  }
+
+  function write(): Promise<void> {
+    const lines = Array.from(entries.values()).flat().sort(compareBytes)
+    const content = [...header, ...lines, ''].join('\n')
+    return Promise.resolve(vscode.workspace.fs.writeFile(tagsUri, Buffer.from(content, 'utf-8'))).then(
+      () => output.appendLine(alloglot.ui.wroteGeneratedTags(file, lines.length)),
+      err => output.appendLine(alloglot.ui.couldNotWriteGeneratedTags(file, err))
+    )
+  }
+
+  // only the files at or under `under`, if given, e.g. a file or folder that was just renamed.
+  async function scanWorkspace(folder: vscode.WorkspaceFolder, under?: vscode.Uri): Promise<void> {
+    output.appendLine(alloglot.ui.scanningWorkspaceForTags(file))
+    const underPath = under && vscode.workspace.asRelativePath(under, false)
+
+    // a file can match the globs of several patterns.
+    const files = new Map<string, { uri: vscode.Uri, which: Array<Matcher> }>()
+    for (const matcher of matchers) {
+      for (const glob of matcher.pattern.files) {
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, glob), exclude)
+        uris.forEach(uri => {
+          if (uri.toString() === tagsUri.toString()) return
+          if (underPath && !isAtOrUnder(vscode.workspace.asRelativePath(uri, false), underPath)) return
+          const entry = files.get(uri.toString()) || { uri, which: [] }
+          entry.which.includes(matcher) || entry.which.push(matcher)
+          files.set(uri.toString(), entry)
+        })
+      }
+    }
+
+    const targets = Array.from(files.values())
+    for (let i = 0; i < targets.length; i += scanBatchSize) {
+      await Promise.all(targets.slice(i, i + scanBatchSize).map(({ uri, which }) =>
+        Promise.resolve(vscode.workspace.fs.readFile(uri)).then(
+          bytes => scanText(vscode.workspace.asRelativePath(uri, false), Buffer.from(bytes).toString('utf-8'), which),
+          err => output.appendLine(alloglot.ui.couldNotScanFile(uri.fsPath, err))
+        )
+      ))
+    }
+
+    output.appendLine(alloglot.ui.scannedWorkspaceForTags(targets.length))
+    scheduleWrite()
+  }
+
+  const ready = scanWorkspace(basedir)
+
+  const selects = (glob: string, document: vscode.TextDocument) =>
+    vscode.languages.match({ pattern: new vscode.RelativePattern(basedir, glob) }, document) > 0
+
+  function updateDocument(document: vscode.TextDocument): void {
+    if (document.uri.toString() === tagsUri.toString()) return
+    if (exclude && selects(exclude, document)) return
+    const which = matchers.filter(({ pattern }) => pattern.files.some(glob => selects(glob, document)))
+    if (which.length === 0) return
+    ready.then(() => {
+      const path = vscode.workspace.asRelativePath(document.uri, false)
+      output.appendLine(alloglot.ui.updatingGeneratedTags(path))
+      scanText(path, document.getText(), which)
+      scheduleWrite()
+    })
+  }
+
+  // `uri` might be a folder, so this removes every file under it too.
+  function removeFiles(uri: vscode.Uri): Promise<void> {
+    return ready.then(() => {
+      const path = vscode.workspace.asRelativePath(uri, false)
+      const removed = Array.from(entries.keys()).filter(key => isAtOrUnder(key, path))
+      removed.forEach(key => entries.delete(key))
+      removed.length > 0 && scheduleWrite()
+    })
+  }
+
+  // renamed files are read from disk, since opening them would tell language servers the user opened them.
+  function renameFiles(oldUri: vscode.Uri, newUri: vscode.Uri): void {
+    removeFiles(oldUri).then(() => {
+      if (!disposed) return scanWorkspace(basedir, newUri)
+    })
+  }
+
+  disposal.insert(vscode.workspace.onDidSaveTextDocument(updateDocument))
+  disposal.insert(vscode.workspace.onDidDeleteFiles(event => event.files.forEach(removeFiles)))
+  disposal.insert(vscode.workspace.onDidRenameFiles(event => event.files.forEach(({ oldUri, newUri }) => renameFiles(oldUri, newUri))))
+  disposal.insert({
+    dispose: () => {
+      disposed = true
+      writeTimer && clearTimeout(writeTimer)
+    }
+  })
+
+  return disposal
+}
+
+type Matcher = { pattern: DefinitionPattern, regexp: RegExp }
+
+function isAtOrUnder(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(`${parent}/`)
+}
+
+const scanBatchSize = 50
+const writeDelayMs = 250
+
+const header = [
+  '!_TAG_FILE_FORMAT\t2\t/extended format; --format=1 will not append ;" to lines/',
+  '!_TAG_FILE_SORTED\t1\t/0=unsorted, 1=sorted, 2=foldcase/',
+  '!_TAG_PROGRAM_NAME\talloglot\t//'
+]
+
+/**
+ * Render a line of an extended-format ctags file.
+ * The address is a search pattern for the whole definition line, with the line number as a fallback.
+ */
+function renderTagLine(symbol: string, path: string, line: string, lineNumber: number, kind?: string): string {
+  const address = `/^${line.replace(/[\\/]/g, '\\$&')}$/`
+  const fields = kind ? [`kind:${kind}`, `line:${lineNumber}`] : [`line:${lineNumber}`]
+  return `${symbol}\t${path}\t${address};"\t${fields.join('\t')}`
+}
+
+// ctags sorts with `LC_ALL=C`, and lookups binary-search on the same order.
+function compareBytes(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
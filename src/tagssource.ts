@@ -0,0 +1,736 @@
+import { basename, dirname, isAbsolute, relative, resolve } from 'path'
+import * as vscode from 'vscode'
+
+import { alloglot } from './config'
+import { AsyncProcess, Disposal, IAsyncProcess, escapeRegExp, fuzzyScore, isInFolder } from './utils'
+
+export interface ITagsSource extends vscode.Disposable {
+  findPrefix(prefix: string, limit?: number): Promise<Array<TagsSource.Tag>>
+  findExact(exact: string, limit?: number): Promise<Array<TagsSource.Tag>>
+  findFuzzy(query: string, limit?: number): Promise<Array<TagsSource.Tag>>
+  findFile(uri: vscode.Uri, limit?: number): Promise<Array<TagsSource.Tag>>
+  fileUri(tag: TagsSource.Tag): vscode.Uri
+  locate(tag: TagsSource.Tag): Promise<vscode.Location>
+}
+
+export namespace TagsSource {
+  export type Tag = {
+    symbol: string
+    file: string
+
+    /**
+     * 1-based line of the definition, from a line-number address or a `line:` field.
+     */
+    lineNumber?: number
+
+    /**
+     * Ex-command search pattern for the definition, e.g. `/^foo :: Int$/`.
+     */
+    pattern?: SearchPattern
+
+    /**
+     * `kind:` field, e.g. `function` or `f`.
+     * Single-letter kinds are expanded using `!_TAG_KIND_DESCRIPTION` pseudo-tags when available.
+     */
+    kind?: string
+
+    /**
+     * Enclosing scope, from a `scope:` field or a field named after the scope kind (e.g. `class:Foo`).
+     */
+    scope?: { kind: string, name: string }
+
+    /**
+     * `signature:` field, e.g. `(int x, int y)`.
+     */
+    signature?: string
+
+    /**
+     * `file:` field: the symbol is only visible within its own file.
+     */
+    fileScoped?: boolean
+  }
+
+  export type SearchPattern = {
+    text: string
+    anchorStart: boolean
+    anchorEnd: boolean
+  }
+
+  /**
+   * A `!_TAG_` line that describes the tags file rather than a symbol.
+   */
+  export type PseudoTag = {
+    name: string
+    value: string
+  }
+
+  export type Config = {
+    languageId: string,
+    basedir: vscode.Uri,
+    folder?: vscode.WorkspaceFolder,
+    tagsUri: vscode.Uri,
+    grepPath: string,
+    format?: 'ctags' | 'etags',
+    useGrep?: boolean,
+    output?: vscode.OutputChannel,
+    initTagsCommand?: string,
+    refreshTagsCommand?: string
+  }
+
+  /**
+   * Create an {@link ITagsSource tags source} for a tags file.
+   * By default, the tags file is loaded into an in-memory index that is reloaded whenever the file changes on disk.
+   * If `useGrep` is set, each lookup instead runs `grep` against the file on disk.
+   * Etags files are always loaded into memory, because their records can't be searched line-by-line.
+   */
+  export function make(config: Config): ITagsSource {
+    const { languageId, basedir, folder, tagsUri, output, initTagsCommand, refreshTagsCommand, format, useGrep } = config
+    output?.appendLine(alloglot.ui.creatingTagsSource(tagsUri.fsPath))
+
+    if (useGrep && format === 'etags') output?.appendLine(alloglot.ui.cannotGrepEtags)
+    const lookup = useGrep && format !== 'etags' ? makeGrep(config) : makeIndex(config)
+
+    let disposed = false
+    let running: IAsyncProcess<void> | undefined = undefined
+    let busy = false
+    let refreshTimer: NodeJS.Timeout | undefined = undefined
+    const pendingFiles = new Set<string>()
+
+    function run(command: string): Promise<void> {
+      if (disposed) return Promise.resolve()
+      const proc = AsyncProcess.exec({ output, command, basedir }, () => undefined)
+      running = proc
+      return proc.promise.catch(() => undefined).then(() => {
+        if (running === proc) running = undefined
+      })
+    }
+
+    // commands run one batch at a time, and the index keeps the last complete tags file until the batch is done.
+    function runBatch(commands: Array<string>): void {
+      busy = true
+      const batch = commands
+        .reduce((previous, command) => previous.then(() => run(command)), Promise.resolve())
+        .then(() => {
+          busy = false
+          flushRefresh()
+        })
+      lookup.hold(batch)
+      vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: alloglot.ui.refreshingTags(basename(tagsUri.fsPath)) },
+        () => batch
+      )
+    }
+
+    // files saved while a batch is running wait for the next batch.
+    function flushRefresh(): void {
+      if (!refreshTagsCommand || busy || disposed || pendingFiles.size === 0) return
+      const files = Array.from(pendingFiles)
+      pendingFiles.clear()
+      output?.appendLine(alloglot.ui.refreshingTagsForFiles(files))
+      const commands = refreshTagsCommand.includes('${files}')
+        ? [refreshTagsCommand.replace('${files}', () => files.map(quoteShellArg).join(' '))]
+        : files.map(file => refreshTagsCommand.replace('${file}', () => quoteShellArg(file)))
+      // a command that mentions no file regenerates everything, so it only needs to run once.
+      runBatch(Array.from(new Set(commands)))
+    }
+
+    if (initTagsCommand) runBatch([initTagsCommand])
+
+    const onSaveWatcher = (() => {
+      if (!refreshTagsCommand) return vscode.Disposable.from()
+
+      // "save all" saves many files at once, so we collect them into a single refresh.
+      const refreshTags = (doc: vscode.TextDocument) => {
+        if (doc.languageId === languageId && isInFolder(doc.uri, folder)) {
+          pendingFiles.add(doc.fileName)
+          refreshTimer && clearTimeout(refreshTimer)
+          refreshTimer = setTimeout(() => {
+            refreshTimer = undefined
+            flushRefresh()
+          }, refreshDelayMs)
+        }
+      }
+
+      return vscode.workspace.onDidSaveTextDocument(refreshTags)
+    })()
+
+    return {
+      findPrefix(prefix, limit = 100) {
+        if (!prefix) return Promise.resolve([])
+        return lookup.findPrefix(prefix, limit)
+      },
+
+      findExact(exact, limit = 100) {
+        if (!exact) return Promise.resolve([])
+        return lookup.findExact(exact, limit)
+      },
+
+      findFuzzy(query, limit = 100) {
+        if (!query) return Promise.resolve([])
+        return lookup.findFuzzy(query, limit)
+      },
+
+      findFile(uri, limit = 10000) {
+        return lookup.findFile(uri, limit)
+      },
+
+      fileUri(tag) {
+        return fileUri(basedir, tag)
+      },
+
+      locate(tag) {
+        return locate(basedir, tag, output)
+      },
+
+      dispose() {
+        disposed = true
+        refreshTimer && clearTimeout(refreshTimer)
+        onSaveWatcher.dispose()
+        running?.disposable.dispose()
+        lookup.dispose()
+      }
+    }
+  }
+
+  const refreshDelayMs = 500
+
+  function quoteShellArg(arg: string): string {
+    return `"${arg.replace(/(["$`\\])/g, '\\$1')}"`
+  }
+
+  type Lookup = Omit<ITagsSource, 'fileUri' | 'locate'> & {
+    /**
+     * Ignore changes to the tags file until `promise` settles, then reload once.
+     */
+    hold(promise: Promise<unknown>): void
+  }
+
+  /**
+   * Loads the entire tags file into a sorted array and answers queries by binary search.
+   * The array is rebuilt when the tags file is created or changed.
+   */
+  function makeIndex(config: Config): Lookup {
+    const { basedir, tagsUri, format, output } = config
+
+    let index: Promise<Array<Tag>> = load().catch(() => [])
+    let fileIndex: Promise<Map<string, Array<Tag>>> | undefined = undefined
+    let reloadTimer: NodeJS.Timeout | undefined = undefined
+    let generation = 0
+    let held: Promise<unknown> | undefined = undefined
+
+    function load(): Promise<Array<Tag>> {
+      output?.appendLine(alloglot.ui.loadingTagsIndex(tagsUri.fsPath))
+      return Promise.resolve(vscode.workspace.fs.readFile(tagsUri)).then(
+        bytes => {
+          const contents = Buffer.from(bytes).toString('utf-8')
+          const { tags, pseudoTags } = format === 'etags' ? parseEtags(contents) : parseCtags(contents)
+          pseudoTags.forEach(pseudoTag => output?.appendLine(alloglot.ui.foundPseudoTag(pseudoTag)))
+          expandKinds(tags, pseudoTags)
+          tags.sort((a, b) => compareStrings(a.symbol, b.symbol))
+          output?.appendLine(alloglot.ui.loadedTagsIndex(tags.length))
+          return tags
+        },
+        err => {
+          output?.appendLine(alloglot.ui.couldNotLoadTagsIndex(err))
+          throw err
+        }
+      )
+    }
+
+    // tags generators often write the file in several chunks,
+    // so we wait for the file to settle before reloading.
+    // lookups keep using the last good index until the new one is loaded.
+    function scheduleReload(): void {
+      if (held) return
+      reloadTimer && clearTimeout(reloadTimer)
+      reloadTimer = setTimeout(() => {
+        reloadTimer = undefined
+        const current = ++generation
+        load().then(
+          tags => {
+            if (current !== generation) return
+            index = Promise.resolve(tags)
+            fileIndex = undefined
+          },
+          () => undefined
+        )
+      }, reloadDelayMs)
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(dirname(tagsUri.fsPath)), basename(tagsUri.fsPath))
+    )
+    watcher.onDidCreate(scheduleReload)
+    watcher.onDidChange(scheduleReload)
+    watcher.onDidDelete(() => {
+      if (held) return
+      generation++
+      index = Promise.resolve([])
+      fileIndex = undefined
+    })
+
+    // most sessions never ask for tags by file, so we only group them on demand.
+    function getFileIndex(): Promise<Map<string, Array<Tag>>> {
+      if (!fileIndex) fileIndex = index.then(tags => {
+        const byFile = new Map<string, Array<Tag>>()
+        tags.forEach(tag => {
+          const key = resolve(basedir.fsPath, tag.file)
+          const tagsForFile = byFile.get(key)
+          tagsForFile ? tagsForFile.push(tag) : byFile.set(key, [tag])
+        })
+        return byFile
+      })
+      return fileIndex
+    }
+
+    return {
+      findPrefix(prefix, limit = 100) {
+        output?.appendLine(alloglot.ui.searchingTagsIndex(prefix))
+        return index.then(tags => scan(tags, prefix, limit, tag => tag.symbol.startsWith(prefix)))
+      },
+
+      findExact(exact, limit = 100) {
+        output?.appendLine(alloglot.ui.searchingTagsIndex(exact))
+        return index.then(tags => scan(tags, exact, limit, tag => tag.symbol === exact))
+      },
+
+      findFuzzy(query, limit = 100) {
+        output?.appendLine(alloglot.ui.searchingTagsIndex(query))
+        return index.then(tags => rankFuzzy(fuzzyCandidates(tags, query), query, limit))
+      },
+
+      findFile(uri, limit = 10000) {
+        output?.appendLine(alloglot.ui.searchingTagsIndex(uri.fsPath))
+        return getFileIndex().then(byFile => (byFile.get(uri.fsPath) || []).slice(0, limit))
+      },
+
+      hold(promise) {
+        held = promise
+        promise.then(() => {
+          if (held !== promise) return
+          held = undefined
+          scheduleReload()
+        })
+      },
+
+      dispose() {
+        reloadTimer && clearTimeout(reloadTimer)
+        watcher.dispose()
+      }
+    }
+  }
+
+  const reloadDelayMs = 250
+
+  /**
+   * Collect up to `limit` consecutive tags matching `predicate`, starting at the first tag not less than `start`.
+   * `tags` must be sorted by symbol, and `predicate` must hold on a contiguous run of tags beginning at `start`.
+   */
+  function scan(tags: Array<Tag>, start: string, limit: number, predicate: (tag: Tag) => boolean): Array<Tag> {
+    const result: Array<Tag> = []
+    for (let i = lowerBound(tags, start); i < tags.length && result.length < limit && predicate(tags[i]); i++) {
+      result.push(tags[i])
+    }
+    return result
+  }
+
+  /**
+   * The tags that might fuzzy-match `query`: those starting with its first character, in either case.
+   * `tags` must be sorted by symbol, so that these are at most two runs of it.
+   */
+  function fuzzyCandidates(tags: Array<Tag>, query: string): Array<Tag> {
+    const first = query.charAt(0)
+    return Array.from(new Set([first.toUpperCase(), first.toLowerCase()])).flatMap(c => {
+      const next = String.fromCharCode(c.charCodeAt(0) + 1)
+      return tags.slice(lowerBound(tags, c), lowerBound(tags, next))
+    })
+  }
+
+  /**
+   * The best `limit` tags fuzzy-matching `query`, best first.
+   * Only the best so far are kept, in order, so the matches are never sorted all at once.
+   */
+  function rankFuzzy(tags: Array<Tag>, query: string, limit: number): Array<Tag> {
+    if (limit <= 0) return []
+    const best: Array<{ tag: Tag, score: number }> = []
+    for (const tag of tags) {
+      const score = fuzzyScore(query, tag.symbol)
+      if (score === undefined) continue
+      if (best.length === limit && score <= best[limit - 1].score) continue
+      // after any equal scores, so ties keep their order in `tags`.
+      let lo = 0
+      let hi = best.length
+      while (lo < hi) {
+        const mid = (lo + hi) >>> 1
+        if (best[mid].score >= score) lo = mid + 1
+        else hi = mid
+      }
+      best.splice(lo, 0, { tag, score })
+      if (best.length > limit) best.pop()
+    }
+    return best.map(x => x.tag)
+  }
+
+  function lowerBound(tags: Array<Tag>, symbol: string): number {
+    let lo = 0
+    let hi = tags.length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      if (compareStrings(tags[mid].symbol, symbol) < 0) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  // plain code-unit comparison, so that a prefix always sorts immediately before its extensions.
+  function compareStrings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  /**
+   * Searches the tags file on disk with `grep` on every lookup.
+   * Meant for tags files too large to hold in memory.
+   */
+  function makeGrep(config: Config): Lookup {
+    const { output } = config
+    const disposal = Disposal.make()
+
+    return {
+      findPrefix(prefix, limit = 100) {
+        const escaped = prefix.replace(/(["\s'$`\\])/g, '\\$1')
+        const proc = grep(config, new RegExp(`^${escaped}`), limit, output)
+        disposal.insert(proc.disposable)
+        return proc.promise
+      },
+
+      findExact(exact, limit = 100) {
+        const escaped = exact.replace(/(["\s'$`\\])/g, '\\$1')
+        const proc = grep(config, new RegExp(`^${escaped}\\t`), limit, output)
+        disposal.insert(proc.disposable)
+        return proc.promise
+      },
+
+      // grep finds candidates in file order, so we over-fetch and rank them ourselves.
+      // like the index, only symbols starting with the first character of `query` are candidates.
+      findFuzzy(query, limit = 100) {
+        const subsequence = Array.from(query.replace(/'/g, '')).map(escapeRegExp).join('[^\\t]*')
+        const proc = grep(config, new RegExp(`^${subsequence}[^\\t]*\\t`, 'i'), limit * fuzzyOverFetch, output)
+        disposal.insert(proc.disposable)
+        return proc.promise.then(tags => rankFuzzy(tags, query, limit))
+      },
+
+      findFile(uri, limit = 10000) {
+        const paths = [relative(config.basedir.fsPath, uri.fsPath), uri.fsPath].map(escapeRegExp)
+        const proc = grep(config, new RegExp(`^[^\\t]+\\t(\\./)?(${paths.join('|')})\\t`), limit, output)
+        disposal.insert(proc.disposable)
+        return proc.promise
+      },
+
+      // grep reads the file on every lookup, so there's no index to hold on to.
+      hold() { },
+
+      dispose() {
+        disposal.dispose()
+      }
+    }
+  }
+
+  const fuzzyOverFetch = 10
+
+  function grep(config: Config, regexp: RegExp, limit: number, output?: vscode.OutputChannel): IAsyncProcess<Array<Tag>> {
+    const { tagsUri, basedir, grepPath } = config
+    const flags = regexp.ignoreCase ? '-i -P' : '-P'
+    const command = `${grepPath} ${flags} '${regexp.source}' ${tagsUri.fsPath} | head -n ${limit}`
+
+    output?.appendLine(`Searching for ${regexp} in ${tagsUri.fsPath}...`)
+    return AsyncProcess.exec({ output, command, basedir }, stdout => filterMap(stdout.split('\n'), line => parseTag(line, output)))
+  }
+
+  function parseTag(line: string, output?: vscode.OutputChannel): Tag | undefined {
+    output?.appendLine(alloglot.ui.parsingTagLine(line))
+    const parsed = parseLine(line)
+    if (!parsed || 'name' in parsed) return undefined
+    output?.appendLine(alloglot.ui.parsedTagLine(parsed))
+    return parsed
+  }
+
+  function parseCtags(contents: string): { tags: Array<Tag>, pseudoTags: Array<PseudoTag> } {
+    const tags: Array<Tag> = []
+    const pseudoTags: Array<PseudoTag> = []
+    contents.split('\n').forEach(line => {
+      const parsed = parseLine(line)
+      if (!parsed) return
+      if ('name' in parsed) pseudoTags.push(parsed)
+      else tags.push(parsed)
+    })
+    return { tags, pseudoTags }
+  }
+
+  /**
+   * Parse an Emacs-style `TAGS` file.
+   * The file is a sequence of sections, each starting with a form feed line and a `file,size` header,
+   * followed by records of the form `text<DEL>name<SOH>line,offset`.
+   * The name (and the `<SOH>` that precedes it) may be omitted, in which case it is implied by the text.
+   */
+  function parseEtags(contents: string): { tags: Array<Tag>, pseudoTags: Array<PseudoTag> } {
+    const tags: Array<Tag> = []
+    contents.split('\x0c').forEach(section => {
+      const [header, ...records] = section.replace(/^\r?\n/, '').split(/\r?\n/)
+      const comma = header.lastIndexOf(',')
+      if (comma <= 0) return
+      const file = header.slice(0, comma)
+      if (header.slice(comma + 1) === 'include') return
+      records.forEach(record => {
+        const tag = parseEtagsRecord(file, record)
+        tag && tags.push(tag)
+      })
+    })
+    return { tags, pseudoTags: [] }
+  }
+
+  function parseEtagsRecord(file: string, record: string): Tag | undefined {
+    const del = record.indexOf('\x7f')
+    if (del < 0) return undefined
+
+    const text = record.slice(0, del)
+    const rest = record.slice(del + 1)
+    const soh = rest.indexOf('\x01')
+    const symbol = soh >= 0 ? rest.slice(0, soh) : impliedEtagsName(text)
+    const [rawLineNumber] = (soh >= 0 ? rest.slice(soh + 1) : rest).split(',')
+    if (!symbol) return undefined
+
+    const tag: Tag = { symbol, file, pattern: { text, anchorStart: true, anchorEnd: false } }
+    const lineNumber = parseInt(rawLineNumber)
+    if (lineNumber) tag.lineNumber = lineNumber
+    return tag
+  }
+
+  // etags uses the last token of the definition text when a record has no explicit name.
+  function impliedEtagsName(text: string): string | undefined {
+    return text.match(/([^\s()=,;]+)[\s()=,;]*$/)?.[1]
+  }
+
+  /**
+   * Parse a line of a ctags file.
+   * Understands the original format (`symbol<TAB>file<TAB>address`),
+   * the extended format (`symbol<TAB>file<TAB>address;"<TAB>fields...`),
+   * and `!_TAG_` pseudo-tags.
+   * The address may be a line number or an ex-command search pattern.
+   */
+  function parseLine(rawLine: string): Tag | PseudoTag | undefined {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine
+
+    const symbolEnd = line.indexOf('\t')
+    const fileEnd = line.indexOf('\t', symbolEnd + 1)
+    if (symbolEnd <= 0 || fileEnd <= symbolEnd + 1) return undefined
+
+    const symbol = line.slice(0, symbolEnd)
+    const file = line.slice(symbolEnd + 1, fileEnd)
+    const rest = line.slice(fileEnd + 1)
+
+    if (symbol.startsWith('!_')) return { name: symbol.slice(2), value: file }
+
+    const address = parseAddress(rest)
+    if (!address) return undefined
+
+    const tag: Tag = { symbol, file }
+    if (address.lineNumber) tag.lineNumber = address.lineNumber
+    if (address.pattern) tag.pattern = address.pattern
+
+    if (rest.startsWith(';"', address.length)) {
+      rest.slice(address.length + 2).split('\t').filter(x => x).forEach(field => parseField(tag, field))
+    }
+
+    if (!tag.lineNumber && !tag.pattern) return undefined
+    return tag
+  }
+
+  /**
+   * Parse the address at the beginning of `rest`.
+   * `length` is the number of characters the address occupies.
+   */
+  function parseAddress(rest: string): { lineNumber?: number, pattern?: SearchPattern, length: number } | undefined {
+    const delimiter = rest.charAt(0)
+
+    if (delimiter === '/' || delimiter === '?') {
+      let text = ''
+      let i = 1
+      for (; i < rest.length && rest.charAt(i) !== delimiter; i++) {
+        if (rest.charAt(i) === '\\' && i + 1 < rest.length) i++
+        text += rest.charAt(i)
+      }
+      if (i >= rest.length) return undefined
+
+      const anchorStart = text.startsWith('^')
+      if (anchorStart) text = text.slice(1)
+      const anchorEnd = text.endsWith('$')
+      if (anchorEnd) text = text.slice(0, -1)
+
+      return { pattern: { text, anchorStart, anchorEnd }, length: i + 1 }
+    }
+
+    const match = rest.match(/^\d+/)
+    if (!match) return undefined
+    const lineNumber = parseInt(match[0])
+    return lineNumber ? { lineNumber, length: match[0].length } : undefined
+  }
+
+  /**
+   * Parse an extension field into `tag`.
+   * A field without a colon is a bare kind, as written by Exuberant Ctags.
+   */
+  function parseField(tag: Tag, field: string): void {
+    const colon = field.indexOf(':')
+    if (colon < 0) {
+      tag.kind = field
+      return
+    }
+
+    const key = field.slice(0, colon)
+    const value = unescapeField(field.slice(colon + 1))
+
+    switch (key) {
+      case 'kind':
+        tag.kind = value
+        return
+      case 'line': {
+        const lineNumber = parseInt(value)
+        if (lineNumber) tag.lineNumber = lineNumber
+        return
+      }
+      case 'signature':
+        tag.signature = value
+        return
+      case 'file':
+        tag.fileScoped = true
+        return
+      case 'scope': {
+        // Universal Ctags `--fields=+Z` writes `scope:<kind>:<name>`.
+        const scopeColon = value.indexOf(':')
+        tag.scope = scopeColon < 0
+          ? { kind: 'scope', name: value }
+          : { kind: value.slice(0, scopeColon), name: value.slice(scopeColon + 1) }
+        return
+      }
+      default:
+        if (value && !nonScopeFields.has(key)) tag.scope = { kind: key, name: value }
+        return
+    }
+  }
+
+  // fields that Universal Ctags and Exuberant Ctags may emit that don't name an enclosing scope.
+  const nonScopeFields = new Set([
+    'access', 'end', 'extras', 'implementation', 'inherits', 'input', 'language', 'name',
+    'nth', 'pattern', 'properties', 'roles', 'typeref', 'xpath'
+  ])
+
+  function unescapeField(value: string): string {
+    return value.replace(/\\([\\tnr])/g, (_, c) => {
+      switch (c) {
+        case 't': return '\t'
+        case 'n': return '\n'
+        case 'r': return '\r'
+        default: return c
+      }
+    })
+  }
+
+  /**
+   * Replace single-letter kinds with the full names declared in `!_TAG_KIND_DESCRIPTION` pseudo-tags.
+   * The pseudo-tag's value looks like `f,function`.
+   */
+  function expandKinds(tags: Array<Tag>, pseudoTags: Array<PseudoTag>): void {
+    const kindNames = new Map<string, string>()
+    pseudoTags
+      .filter(pseudoTag => pseudoTag.name.startsWith('TAG_KIND_DESCRIPTION'))
+      .forEach(pseudoTag => {
+        const [letter, name] = pseudoTag.value.split(',')
+        letter && name && !kindNames.has(letter) && kindNames.set(letter, name)
+      })
+    if (kindNames.size === 0) return
+    tags.forEach(tag => {
+      if (tag.kind && kindNames.has(tag.kind)) tag.kind = kindNames.get(tag.kind)
+    })
+  }
+
+  /**
+   * Find the location of a tag's definition.
+   * If the tag has a search pattern, the file is searched for it, preferring the match nearest the tag's line number.
+   * Otherwise, the tag's line number is used as is.
+   */
+  function locate(basedir: vscode.Uri, tag: Tag, output?: vscode.OutputChannel): Promise<vscode.Location> {
+    const uri = fileUri(basedir, tag)
+    const fallback = new vscode.Location(uri, new vscode.Position(Math.max((tag.lineNumber || 1) - 1, 0), 0))
+    if (!tag.pattern) return Promise.resolve(fallback)
+
+    return readLines(uri).then(
+      lines => {
+        const line = findLine(tag, lines)
+        if (line === undefined) {
+          output?.appendLine(alloglot.ui.tagNotFoundInFile(tag))
+          return fallback
+        }
+        return new vscode.Location(uri, new vscode.Position(line, Math.max(lines[line].indexOf(tag.symbol), 0)))
+      },
+      err => {
+        output?.appendLine(alloglot.ui.couldNotReadTaggedFile(uri.fsPath, err))
+        return fallback
+      }
+    )
+  }
+
+  /**
+   * Find the 0-based line of a tag's definition in `lines`, the contents of the tagged file.
+   * The tag's search pattern is tried first, then its line number.
+   */
+  export function findLine(tag: Tag, lines: Array<string>): number | undefined {
+    const found = tag.pattern && searchPattern(lines, tag.pattern, tag.lineNumber)
+    if (found !== undefined) return found
+    if (tag.lineNumber && tag.lineNumber <= lines.length) return tag.lineNumber - 1
+    return undefined
+  }
+
+  function fileUri(basedir: vscode.Uri, tag: Tag): vscode.Uri {
+    return isAbsolute(tag.file) ? vscode.Uri.file(tag.file) : vscode.Uri.joinPath(basedir, tag.file)
+  }
+
+  /**
+   * The lines of `uri`, from an open editor if there is one, since it may be ahead of the file on disk.
+   * Files that aren't open are read from disk, without opening them as documents.
+   */
+  export function readLines(uri: vscode.Uri): Promise<Array<string>> {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+    if (document) return Promise.resolve(document.getText().split(/\r?\n/))
+    return Promise.resolve(vscode.workspace.fs.readFile(uri)).then(bytes => Buffer.from(bytes).toString('utf-8').split(/\r?\n/))
+  }
+
+  /**
+   * Find the 0-based line matching `pattern`, or `undefined` if no line matches.
+   * If `hint` (1-based) is supplied, the match nearest to it is preferred.
+   */
+  function searchPattern(lines: Array<string>, pattern: SearchPattern, hint?: number): number | undefined {
+    const { text, anchorStart, anchorEnd } = pattern
+    const matches = (line: string) =>
+      anchorStart && anchorEnd ? line === text
+        : anchorStart ? line.startsWith(text)
+          : anchorEnd ? line.endsWith(text)
+            : line.includes(text)
+
+    let best: number | undefined = undefined
+    const target = hint ? hint - 1 : 0
+    lines.forEach((line, i) => {
+      if (!matches(line)) return
+      if (best === undefined || Math.abs(i - target) < Math.abs(best - target)) best = i
+    })
+    return best
+  }
+
+  function filterMap<T, U>(xs: Array<T>, f: (x: T) => U | undefined): Array<U> {
+    const result: Array<U> = []
+    for (const x of xs) {
+      const y = f(x)
+      if (y !== undefined) result.push(y)
+    }
+    return result
+  }
+}
@@ -74,17 +74,16 @@ export namespace AsyncProcess {
 
     const disposable = vscode.Disposable.from({
       dispose: () => {
-        if (proc) {
+        // a process that has already exited can't be killed, so waiting for `killed` would never end.
+        if (proc && proc.exitCode === null && proc.signalCode === null) {
           try {
             output?.appendLine(alloglot.ui.killingCommand(command))
-            proc.kill('SIGINT')
-            while (!proc.killed) { }
-            proc = undefined
-            output?.appendLine(alloglot.ui.commandKilled(command))
+            proc.kill('SIGINT') && output?.appendLine(alloglot.ui.commandKilled(command))
           } catch (err) {
             output?.appendLine(alloglot.ui.errorKillingCommand(command, err))
           }
         }
+        proc = undefined
       }
     })
 
@@ -120,6 +119,125 @@ export namespace AsyncProcess {
   const stripAnsi: (raw: string) => string = require('strip-ansi').default
 }
 
+/**
+ * A document selector for documents of `languageId` in `folder`.
+ * If `folder` is undefined, the selector matches documents of `languageId` anywhere.
+ */
+export function folderSelector(languageId: string, folder?: vscode.WorkspaceFolder): vscode.DocumentFilter {
+  return folder
+    ? { language: languageId, pattern: new vscode.RelativePattern(folder, '**/*') }
+    : { language: languageId }
+}
+
+/**
+ * Whether `uri` belongs to `folder`.
+ * If `folder` is undefined, every `uri` belongs to it.
+ */
+export function isInFolder(uri: vscode.Uri, folder?: vscode.WorkspaceFolder): boolean {
+  return !folder || vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() === folder.uri.toString()
+}
+
+/**
+ * Escape `text` so that it matches itself literally when used in a regular expression.
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+/**
+ * Whether the `/`-separated `path` matches `glob`.
+ * Supports the glob syntax of VSCode's file patterns: `**`, `*`, `?`, `{a,b}` and `[...]`.
+ */
+export function matchesGlob(glob: string, path: string): boolean {
+  return globToRegExp(glob).test(path)
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob.charAt(i)
+    if (c === '*' && glob.charAt(i + 1) === '*') {
+      // `**/` matches any number of directories, including none.
+      const slash = glob.charAt(i + 2) === '/'
+      source += slash ? '(?:[^/]*/)*' : '.*'
+      i += slash ? 2 : 1
+    } else if (c === '*') {
+      source += '[^/]*'
+    } else if (c === '?') {
+      source += '[^/]'
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i + 1)
+      if (end < 0) {
+        source += '\\['
+        continue
+      }
+      source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+      i = end
+    } else if (c === '{') {
+      braces++
+      source += '(?:'
+    } else if (c === '}' && braces > 0) {
+      braces--
+      source += ')'
+    } else if (c === ',' && braces > 0) {
+      source += '|'
+    } else {
+      source += escapeRegExp(c)
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Score how well `query` fuzzy-matches `target`, or `undefined` if it doesn't match at all.
+ * Every character of `query` must appear in `target`, in order, ignoring case.
+ * Higher scores are better: consecutive characters, characters at word boundaries,
+ * matching case, and prefix or exact matches all count for more, while longer targets count for less.
+ */
+export function fuzzyScore(query: string, target: string): number | undefined {
+  if (!query) return 0
+
+  const lowerQuery = query.toLowerCase()
+  const lowerTarget = target.toLowerCase()
+
+  // cheap rejection before the quadratic part.
+  let t = -1
+  for (let q = 0; q < lowerQuery.length; q++) {
+    t = lowerTarget.indexOf(lowerQuery.charAt(q), t + 1)
+    if (t < 0) return undefined
+  }
+
+  // best[t] is the best score for the query so far with its last character matched at target position `t`.
+  let best: Array<number> = []
+  for (let q = 0; q < lowerQuery.length; q++) {
+    const next: Array<number> = new Array(lowerTarget.length).fill(-Infinity)
+    let bestBefore = q === 0 ? 0 : -Infinity
+    for (let t = 0; t < lowerTarget.length; t++) {
+      if (q > 0 && t > 0) bestBefore = Math.max(bestBefore, best[t - 2] ?? -Infinity)
+      if (lowerTarget.charAt(t) !== lowerQuery.charAt(q)) continue
+      const bonus = (isWordStart(target, t) ? 8 : 0) + (target.charAt(t) === query.charAt(q) ? 1 : 0)
+      const consecutive = q > 0 && t > 0 ? best[t - 1] + 5 : -Infinity
+      next[t] = bonus + Math.max(bestBefore, consecutive)
+    }
+    best = next
+  }
+
+  let score = Math.max(...best)
+  if (lowerTarget.startsWith(lowerQuery)) score += 10
+  if (lowerTarget === lowerQuery) score += 20
+  return score - (target.length - query.length) / 10
+}
+
+// start of the string, after a separator, or a camel-case hump.
+function isWordStart(text: string, i: number): boolean {
+  if (i === 0) return true
+  const prev = text.charAt(i - 1)
+  const curr = text.charAt(i)
+  if (/[_\-.:\/\s]/.test(prev)) return true
+  return curr !== curr.toLowerCase() && prev === prev.toLowerCase()
+}
+
 export interface IHierarchicalOutputChannel extends vscode.OutputChannel {
   prefixPath: Array<string>
   local(prefix: string): IHierarchicalOutputChannel
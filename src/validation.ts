@@ -0,0 +1,266 @@
+import * as vscode from 'vscode'
+
+import { alloglot } from './config'
+
+/**
+ * A problem with a JSON value, at `path` (object keys and array indices into the value).
+ */
+export type Problem = {
+  path: Array<string | number>
+  message: string
+  severity: 'error' | 'warning'
+}
+
+/**
+ * A parsed JSON file that remembers where each value is in the text.
+ */
+export interface IJsonDocument {
+  value: any
+
+  /**
+   * The range of the property name (or, for array items and the root, the value) at `path`.
+   * Objects and arrays are located by their opening bracket.
+   */
+  rangeOf(path: Array<string | number>): vscode.Range | undefined
+}
+
+export namespace Validation {
+  /**
+   * Check `value` against the parts of JSON Schema used by `schemas/alloglot.schema.json`:
+   * `$ref`, `type`, `enum`, `const`, `anyOf`, `items`, `properties`, `required` and `additionalProperties` (`false` or a schema).
+   * Unknown properties are warnings. Everything else is an error.
+   */
+  export function validate(schema: any, value: any): Array<Problem> {
+    const problems: Array<Problem> = []
+    check(schema, schema, value, [], problems)
+    return problems
+  }
+
+  /**
+   * Parse JSON text, keeping track of where each value is.
+   * Throws a {@link JsonSyntaxError} on malformed input.
+   */
+  export function parse(text: string): IJsonDocument {
+    const values = new Map<string, [number, number]>()
+    const keys = new Map<string, [number, number]>()
+    let i = 0
+
+    function fail(message: string): never {
+      throw new JsonSyntaxError(message, i)
+    }
+
+    function whitespace(): void {
+      while (i < text.length && /\s/.test(text[i])) i++
+    }
+
+    function token(pattern: RegExp): string | undefined {
+      pattern.lastIndex = i
+      const match = pattern.exec(text)
+      if (!match) return undefined
+      i += match[0].length
+      return match[0]
+    }
+
+    function parseString(): string {
+      const raw = token(stringPattern)
+      return raw === undefined ? fail(alloglot.ui.jsonExpectedString) : JSON.parse(raw)
+    }
+
+    function parseValue(path: Array<string | number>): any {
+      whitespace()
+      const start = i
+
+      if (text[i] === '{') {
+        values.set(key(path), [start, start + 1])
+        i++
+        const value: any = {}
+        whitespace()
+        if (text[i] === '}') {
+          i++
+          return value
+        }
+        for (; ;) {
+          whitespace()
+          const keyStart = i
+          const name = parseString()
+          keys.set(key([...path, name]), [keyStart, i])
+          whitespace()
+          if (text[i++] !== ':') fail(alloglot.ui.jsonExpected(':'))
+          value[name] = parseValue([...path, name])
+          whitespace()
+          const next = text[i++]
+          if (next === '}') return value
+          if (next !== ',') fail(alloglot.ui.jsonExpected(', or }'))
+        }
+      }
+
+      if (text[i] === '[') {
+        values.set(key(path), [start, start + 1])
+        i++
+        const value: Array<any> = []
+        whitespace()
+        if (text[i] === ']') {
+          i++
+          return value
+        }
+        for (; ;) {
+          value.push(parseValue([...path, value.length]))
+          whitespace()
+          const next = text[i++]
+          if (next === ']') return value
+          if (next !== ',') fail(alloglot.ui.jsonExpected(', or ]'))
+        }
+      }
+
+      const value = text[i] === '"' ? parseString() : JSON.parse(token(literalPattern) ?? fail(alloglot.ui.jsonExpectedValue))
+      values.set(key(path), [start, i])
+      return value
+    }
+
+    const value = parseValue([])
+    whitespace()
+    if (i < text.length) fail(alloglot.ui.jsonUnexpectedContent)
+
+    return {
+      value,
+      rangeOf(path) {
+        const offsets = keys.get(key(path)) || values.get(key(path))
+        return offsets && new vscode.Range(positionAt(text, offsets[0]), positionAt(text, offsets[1]))
+      }
+    }
+  }
+
+  /**
+   * A JSON syntax error at `offset` into the text.
+   */
+  export class JsonSyntaxError extends Error {
+    constructor(message: string, readonly offset: number) {
+      super(message)
+    }
+  }
+
+  export function positionAt(text: string, offset: number): vscode.Position {
+    const lines = text.slice(0, offset).split('\n')
+    return new vscode.Position(lines.length - 1, lines[lines.length - 1].length)
+  }
+
+  const stringPattern = /"(?:[^"\\\u0000-\u001f]|\\.)*"/y
+  const literalPattern = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+
+  function key(path: Array<string | number>): string {
+    return JSON.stringify(path)
+  }
+
+  function check(root: any, schema: any, value: any, path: Array<string | number>, problems: Array<Problem>): void {
+    schema = deref(root, schema)
+
+    if (schema.anyOf) {
+      const branches: Array<any> = schema.anyOf.map((branch: any) => deref(root, branch))
+
+      // discriminated unions, like `StringTransformation`, are checked against the branch with the matching tag.
+      const tag = discriminator(branches)
+      if (tag && isObject(value)) {
+        const tags = branches.map(branch => branch.properties[tag].const)
+        const branch = branches.find(branch => branch.properties[tag].const === value[tag])
+        if (branch) return check(root, branch, value, path, problems)
+        const at = tag in value ? [...path, tag] : path
+        problems.push({ path: at, message: alloglot.ui.schemaExpectedOneOf(tag, tags), severity: 'error' })
+        return
+      }
+
+      // otherwise, use the first branch of the right type without errors, or report the problems of the first one.
+      const candidates = branches.filter(branch => typesOf(root, branch).includes(typeOf(value)))
+      const fits = (branch: any) => {
+        const found: Array<Problem> = []
+        check(root, branch, value, path, found)
+        return found.every(problem => problem.severity !== 'error')
+      }
+      const branch = candidates.find(fits) || candidates[0]
+      if (branch) return check(root, branch, value, path, problems)
+      problems.push({ path, message: alloglot.ui.schemaExpectedType(typesOf(root, schema), typeOf(value)), severity: 'error' })
+      return
+    }
+
+    const types = typesOf(root, schema)
+    if (types.length > 0 && !types.includes(typeOf(value))) {
+      problems.push({ path, message: alloglot.ui.schemaExpectedType(types, typeOf(value)), severity: 'error' })
+      return
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      problems.push({ path, message: alloglot.ui.schemaExpectedValue(schema.enum, value), severity: 'error' })
+    }
+
+    if ('const' in schema && schema.const !== value) {
+      problems.push({ path, message: alloglot.ui.schemaExpectedValue([schema.const], value), severity: 'error' })
+    }
+
+    if (schema.items && Array.isArray(value)) {
+      value.forEach((item, i) => check(root, schema.items, item, [...path, i], problems))
+    }
+
+    if (schema.properties && isObject(value)) {
+      const properties: { [name: string]: any } = schema.properties
+      const required: Array<string> = schema.required || []
+      required.filter(name => !(name in value)).forEach(name => {
+        problems.push({ path, message: alloglot.ui.schemaMissingProperty(name), severity: 'error' })
+      })
+      Object.keys(value).forEach(name => {
+        if (name in properties) return check(root, properties[name], value[name], [...path, name], problems)
+        if (isObject(schema.additionalProperties)) return check(root, schema.additionalProperties, value[name], [...path, name], problems)
+        if (schema.additionalProperties !== false) return
+        const suggestion = closest(name, Object.keys(properties))
+        problems.push({ path: [...path, name], message: alloglot.ui.schemaUnknownProperty(name, suggestion), severity: 'warning' })
+      })
+    }
+  }
+
+  function deref(root: any, schema: any): any {
+    const ref: string | undefined = schema.$ref
+    if (!ref) return schema
+    return deref(root, ref.replace(/^#\//, '').split('/').reduce((node, name) => node?.[name], root) || {})
+  }
+
+  function discriminator(branches: Array<any>): string | undefined {
+    const first = branches[0]?.properties || {}
+    return Object.keys(first).find(name => branches.every(branch => branch.properties?.[name] && 'const' in branch.properties[name]))
+  }
+
+  function typesOf(root: any, schema: any): Array<string> {
+    schema = deref(root, schema)
+    if (schema.anyOf) return Array.from(new Set(schema.anyOf.flatMap((branch: any) => typesOf(root, branch))))
+    if (schema.type) return Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (schema.enum) return Array.from(new Set(schema.enum.map(typeOf)))
+    if ('const' in schema) return [typeOf(schema.const)]
+    return []
+  }
+
+  function typeOf(value: any): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    return typeof value
+  }
+
+  function isObject(value: any): boolean {
+    return typeOf(value) === 'object'
+  }
+
+  // suggest a known property for a likely typo, like `formatComand`.
+  function closest(name: string, candidates: Array<string>): string | undefined {
+    const scored = candidates.map(candidate => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    const best = scored.sort((a, b) => a.distance - b.distance)[0]
+    return best && best.distance <= Math.max(2, Math.floor(name.length / 4)) ? best.candidate : undefined
+  }
+
+  function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      }
+      previous = current
+    }
+    return previous[b.length]
+  }
+}